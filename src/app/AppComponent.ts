@@ -1,6 +1,7 @@
 import { Component } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { RouterModule } from '@angular/router';
+import { ToastModule } from 'primeng/toast';
 import { NavbarComponent } from './shared/navbar/NavbarComponent';
 
 @Component({
@@ -9,7 +10,8 @@ import { NavbarComponent } from './shared/navbar/NavbarComponent';
   imports: [
     CommonModule,
     RouterModule,
-    NavbarComponent
+    NavbarComponent,
+    ToastModule
   ]
 })
 export class AppComponent {
@@ -1,75 +1,125 @@
 import { Routes } from '@angular/router';
+import { roleGuard, roleMatchGuard } from './guards/RoleGuard';
+import { INavLink, IRouteAccessData } from './interfaces/RouteAccessInterface';
 
 export const routes: Routes = [
   // Public routes
-  { 
+  {
     path: 'login',
     loadComponent: () => import('./shared/login/LoginComponent').then(m => m.LoginComponent)
   },
-  { 
+  {
     path: 'register',
     loadComponent: () => import('./shared/register/RegisterComponent').then(m => m.RegisterComponent)
   },
+  {
+    path: 'forbidden',
+    loadComponent: () => import('./shared/forbidden/ForbiddenComponent').then(m => m.ForbiddenComponent)
+  },
   // Ecommerce routes
   {
     path: '',
     loadComponent: () => import('./ecommerce/EcommerceComponent').then(m => m.EcommerceComponent),
     children: [
       // Public routes
-      { 
+      {
         path: 'listrecords/:idGroup',
         loadComponent: () => import('./ecommerce/listrecords/ListrecordsComponent').then(m => m.ListrecordsComponent)
       },
-      { 
+      {
+        path: 'catalog',
+        data: { access: 'public', navLabel: 'CATALOG' } satisfies IRouteAccessData,
+        loadComponent: () => import('./ecommerce/catalog/CatalogComponent').then(m => m.CatalogComponent)
+      },
+      {
+        path: 'genres/:id',
+        loadComponent: () => import('./ecommerce/genredetail/GenreDetailComponent').then(m => m.GenreDetailComponent)
+      },
+      {
+        path: 'wishlist',
+        loadComponent: () => import('./ecommerce/wishlist/WishlistComponent').then(m => m.WishlistComponent)
+      },
+      {
         path: 'cart-details',
         loadComponent: () => import('./ecommerce/CartDetails/CartDetailsComponent').then(m => m.CartDetailsComponent)
       },
-      { 
-        path: '',
-        loadComponent: () => import('./ecommerce/listgroups/ListgroupsComponent').then(m => m.ListgroupsComponent)
+      {
+        path: 'search',
+        loadComponent: () => import('./ecommerce/search/SearchResultsComponent').then(m => m.SearchResultsComponent)
       },
-      // Protected routes (require authentication)
-      { 
-        path: 'listgroups',
-        canActivate: [], // Add AuthGuard here if needed
+      {
+        path: 'records/:id',
+        loadComponent: () => import('./ecommerce/recorddetail/RecordDetailComponent').then(m => m.RecordDetailComponent)
+      },
+      {
+        path: '',
         loadComponent: () => import('./ecommerce/listgroups/ListgroupsComponent').then(m => m.ListgroupsComponent)
       },
-      { 
+      // Protected routes (access and navbar entries are declared in data)
+      {
         path: 'genres',
-        canActivate: [], // Add AuthGuard here if needed
+        canMatch: [roleMatchGuard],
+        data: { access: 'Admin', navLabel: 'MUSIC GENRES' } satisfies IRouteAccessData,
         loadComponent: () => import('./ecommerce/genres/GenresComponent').then(m => m.GenresComponent)
       },
-      { 
+      {
         path: 'groups',
-        canActivate: [], // Add AuthGuard here if needed
+        canMatch: [roleMatchGuard],
+        data: { access: 'Admin', navLabel: 'GROUPS' } satisfies IRouteAccessData,
         loadComponent: () => import('./ecommerce/groups/GroupsComponent').then(m => m.GroupsComponent)
       },
-      { 
+      {
         path: 'records',
-        canActivate: [], // Add AuthGuard here if needed
+        canMatch: [roleMatchGuard],
+        data: { access: 'Admin', navLabel: 'RECORDS' } satisfies IRouteAccessData,
         loadComponent: () => import('./ecommerce/records/RecordsComponent').then(m => m.RecordsComponent)
       },
-      { 
+      {
+        path: 'listgroups',
+        canActivate: [roleGuard],
+        data: { access: 'authenticated', navLabel: 'MUSIC GROUPS' } satisfies IRouteAccessData,
+        loadComponent: () => import('./ecommerce/listgroups/ListgroupsComponent').then(m => m.ListgroupsComponent)
+      },
+      {
         path: 'carts',
-        canActivate: [], // Add AuthGuard here if needed
+        canMatch: [roleMatchGuard],
+        data: { access: 'Admin', navLabel: 'CARTS' } satisfies IRouteAccessData,
         loadComponent: () => import('./ecommerce/carts/CartsComponent').then(m => m.CartsComponent)
       },
-      { 
+      {
         path: 'orders',
-        canActivate: [], // Add AuthGuard here if needed
+        canActivate: [roleGuard],
+        data: { access: 'customer', navLabel: 'ORDERS' } satisfies IRouteAccessData,
         loadComponent: () => import('./ecommerce/orders/OrdersComponent').then(m => m.OrdersComponent)
       },
-      { 
+      {
+        path: 'alerts',
+        canActivate: [roleGuard],
+        data: { access: 'customer', navLabel: 'ALERTS' } satisfies IRouteAccessData,
+        loadComponent: () => import('./ecommerce/alerts/AlertsComponent').then(m => m.AlertsComponent)
+      },
+      {
         path: 'admin-orders',
-        canActivate: [], // Add AuthGuard here if needed
+        canMatch: [roleMatchGuard],
+        data: { access: 'Admin', navLabel: 'ORDERS' } satisfies IRouteAccessData,
         loadComponent: () => import('./ecommerce/AdminOrders/AdminOrdersComponent').then(m => m.AdminOrdersComponent)
       },
-      { 
+      {
         path: 'users',
-        canActivate: [], // Add AuthGuard here if needed
+        canMatch: [roleMatchGuard],
+        data: { access: 'Admin', navLabel: 'USERS' } satisfies IRouteAccessData,
         loadComponent: () => import('./ecommerce/users/UsersComponent').then(m => m.UsersComponent)
       },
     ]
   },
   { path: '**', redirectTo: '' }
 ];
+
+// Navbar entries, derived from the route data above
+export const navLinks: INavLink[] = routes
+  .flatMap(route => [route, ...(route.children ?? [])])
+  .filter(route => !!route.path && !!(route.data as IRouteAccessData | undefined)?.navLabel)
+  .map(route => {
+    const data = route.data as IRouteAccessData;
+    return { path: route.path!, label: data.navLabel!, access: data.access ?? 'public' };
+  });
@@ -1,12 +1,25 @@
-import { Component, inject, afterNextRender, ChangeDetectionStrategy, ChangeDetectorRef } from '@angular/core';
+import { Component, inject, afterNextRender, ChangeDetectionStrategy, ChangeDetectorRef, DestroyRef } from '@angular/core';
 import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
 import { OrderService } from '../services/OrderService';
 import { IOrder } from '../EcommerceInterface';
 import { CommonModule, DatePipe } from '@angular/common';
 import { FormsModule } from '@angular/forms';
+import { RouterModule } from '@angular/router';
 import { TableModule } from 'primeng/table';
 import { ButtonModule } from 'primeng/button';
 import { InputTextModule } from 'primeng/inputtext';
+import { AppError } from 'src/app/services/AppError';
+import { LoadErrorComponent } from 'src/app/shared/load-error/LoadErrorComponent';
+import { HighlightPipe } from 'src/app/shared/pipes/HighlightPipe';
+import { ListUrlState } from 'src/app/shared/utils/ListUrlState';
+import { ISearchField, searchItems } from 'src/app/shared/utils/TextSearch';
+
+const ORDER_SEARCH_FIELDS: ISearchField<IOrder>[] = [
+  { value: (order) => order.idOrder, weight: 3 },
+  { value: (order) => order.userEmail, weight: 2 },
+  { value: (order) => order.paymentMethod, weight: 1 },
+  { value: (order) => (order.orderDate ? new Date(order.orderDate).toLocaleDateString() : null), weight: 1 },
+];
 
 @Component({
     selector: 'app-admin-orders',
@@ -16,21 +29,33 @@ import { InputTextModule } from 'primeng/inputtext';
     imports: [
         CommonModule,
         FormsModule,
+        RouterModule,
         TableModule,
         ButtonModule,
         InputTextModule,
-        DatePipe
+        DatePipe,
+        LoadErrorComponent,
+        HighlightPipe
     ]
 })
 export class AdminOrdersComponent {
   orders: IOrder[] = [];
   filteredOrders: IOrder[] = [];
+  // Set when the list could not be loaded, as opposed to an empty list
+  loadError: string | null = null;
   loading = true;
   searchText: string = '';
   expandedOrderId: number | null = null;
+  // Table state mirrored from the query params
+  first = 0;
+  rows = 5;
+  sortField: string | null = null;
+  sortOrder: 1 | -1 = 1;
 
   private readonly orderService = inject(OrderService);
   private readonly cdr = inject(ChangeDetectorRef);
+  private readonly destroyRef = inject(DestroyRef);
+  readonly listState = new ListUrlState({ rows: 5 });
 
   constructor() {
     // afterNextRender runs once after the component is initialized
@@ -41,16 +66,30 @@ export class AdminOrdersComponent {
 
     // Initial data load
     this.loadAllOrders();
+
+    // Search, page and sort come from the URL, also on back/forward
+    this.listState.changes$.pipe(takeUntilDestroyed()).subscribe((state) => {
+      if (state.search !== this.searchText.trim()) {
+        this.searchText = state.search;
+      }
+      this.first = this.listState.firstRow(state);
+      this.rows = state.rows;
+      this.sortField = state.sortField;
+      this.sortOrder = state.sortOrder;
+      this.filterOrders(this.searchText);
+      this.cdr.markForCheck();
+    });
   }
 
   loadAllOrders(): void {
     this.loading = true;
+    this.loadError = null;
     this.orderService.getAllOrders().pipe(
-      takeUntilDestroyed()
+      takeUntilDestroyed(this.destroyRef)
     ).subscribe({
       next: (orders) => {
         this.orders = orders;
-        this.filteredOrders = [...orders];
+        this.filterOrders(this.searchText);
         this.loading = false;
         this.cdr.markForCheck();
       },
@@ -58,6 +97,7 @@ export class AdminOrdersComponent {
         console.error('Error loading all orders:', err);
         this.orders = [];
         this.filteredOrders = [];
+        this.loadError = AppError.from(err).message;
         this.loading = false;
         this.cdr.markForCheck();
       },
@@ -75,25 +115,12 @@ export class AdminOrdersComponent {
 
   onSearchChange() {
     this.filterOrders(this.searchText);
+    this.listState.search(this.searchText);
     this.cdr.markForCheck();
   }
 
   private filterOrders(searchText: string): void {
-    if (!searchText) {
-      this.filteredOrders = [...this.orders];
-      this.cdr.markForCheck();
-      return;
-    }
-
-    const searchLower = searchText.toLowerCase();
-    this.filteredOrders = this.orders.filter(
-      (order) =>
-        order.userEmail.toLowerCase().includes(searchLower) ||
-        order.idOrder.toString().includes(searchLower) ||
-        order.paymentMethod.toLowerCase().includes(searchLower) ||
-        (order.orderDate &&
-          new Date(order.orderDate).toLocaleDateString().includes(searchLower))
-    );
+    this.filteredOrders = searchItems(this.orders, searchText, ORDER_SEARCH_FIELDS);
   }
 
 
@@ -4,8 +4,8 @@ import { CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms';
 import { ConfirmationService } from 'primeng/api';
 import { ActivatedRoute, RouterModule } from '@angular/router';
-import { of } from 'rxjs';
-import { filter, map, catchError } from 'rxjs/operators';
+import { Observable, Subject, of } from 'rxjs';
+import { filter, map, catchError, debounceTime, finalize } from 'rxjs/operators';
 
 // PrimeNG Modules
 import { TableModule } from 'primeng/table';
@@ -21,12 +21,19 @@ import { UserService } from 'src/app/services/UserService';
 import { CartDetailService } from '../services/CartDetailService';
 import { CartService } from '../services/CartService';
 import { OrderService } from '../services/OrderService';
+import { SavedForLaterService } from '../services/SavedForLaterService';
 
 // Guards
 import { AuthGuard } from 'src/app/guards/AuthGuardService';
+import { AppError } from 'src/app/services/AppError';
+import { LoadErrorComponent } from 'src/app/shared/load-error/LoadErrorComponent';
+import { SavedForLaterComponent } from '../savedforlater/SavedForLaterComponent';
 
 // Interfaces
-import { ICartDetail, IRecord, ExtendedCartDetail } from '../EcommerceInterface';
+import { ICartDetail, ICartLine, ICartQuantityChange, IRecord, ExtendedCartDetail, IGuestCartConflict } from '../EcommerceInterface';
+
+// Pause after the last quantity change before the cart is updated
+const QUANTITY_DEBOUNCE_MS = 600;
 
 @Component({
   selector: 'app-cart-details',
@@ -42,7 +49,9 @@ import { ICartDetail, IRecord, ExtendedCartDetail } from '../EcommerceInterface'
     TooltipModule,
     InputNumberModule,
     ConfirmDialogModule,
-    DialogModule
+    DialogModule,
+    LoadErrorComponent,
+    SavedForLaterComponent
   ],
   providers: [ConfirmationService],
   changeDetection: ChangeDetectionStrategy.OnPush
@@ -50,13 +59,22 @@ import { ICartDetail, IRecord, ExtendedCartDetail } from '../EcommerceInterface'
 export class CartDetailsComponent {
   cartDetails: ICartDetail[] = [];
   filteredCartDetails: ExtendedCartDetail[] = [];
+  // Set when the cart could not be loaded, as opposed to an empty cart
+  loadError: string | null = null;
   emailUser: string | null = '';
-  isAddingToCart = false;
+  isUpdatingCart = false;
   currentViewedEmail: string = '';
   isViewingAsAdmin: boolean = false;
+  // Visitor who is not signed in, with the cart kept in the browser
+  isGuest = false;
+  // Lines of the visitor's cart that did not fit in the stock when merged on login
+  guestCartConflicts: IGuestCartConflict[] = [];
   isCreatingOrder = false;
   alertMessage: string = '';
   alertType: 'success' | 'error' | null = null;
+  // Amounts typed in the lines and not sent to the cart yet, by record
+  private readonly pendingQuantities = new Map<number, number>();
+  private readonly quantityChange$ = new Subject<void>();
 
   private readonly cartDetailService = inject(CartDetailService);
   private readonly route = inject(ActivatedRoute);
@@ -64,7 +82,9 @@ export class CartDetailsComponent {
   private readonly userService = inject(UserService);
   private readonly cartService = inject(CartService);
   private readonly orderService = inject(OrderService);
+  private readonly savedForLaterService = inject(SavedForLaterService);
   private readonly cdr = inject(ChangeDetectorRef);
+  private readonly confirmationService = inject(ConfirmationService);
 
   constructor() {
     // Initial data loading
@@ -81,20 +101,59 @@ export class CartDetailsComponent {
           this.isViewingAsAdmin = true;
           this.loadCartDetails(viewingUserEmail);
         } else {
-          // User viewing their own cart
+          // User viewing their own cart, or visitor with a cart in the browser
           this.userService.email$
-            .pipe(
-              takeUntilDestroyed(),
-              filter((email): email is string => !!email)
-            )
+            .pipe(takeUntilDestroyed(this.destroyRef))
             .subscribe((email) => {
-              this.currentViewedEmail = email;
               this.isViewingAsAdmin = false;
-              this.loadCartDetails(email);
+              this.isGuest = !email;
+              if (email) {
+                this.currentViewedEmail = email;
+                this.loadCartDetails(email);
+              } else {
+                this.currentViewedEmail = '';
+                this.showGuestCart(this.cartService.getCartForUser(null));
+              }
             });
         }
       });
 
+    // The visitor's cart lives in the cart service
+    this.cartService.cart$
+      .pipe(takeUntilDestroyed())
+      .subscribe((cartItems) => {
+        if (this.isGuest) {
+          this.showGuestCart(cartItems);
+        }
+      });
+
+    this.cartService.guestCartConflicts$
+      .pipe(takeUntilDestroyed())
+      .subscribe((conflicts) => {
+        this.guestCartConflicts = conflicts;
+        this.cdr.markForCheck();
+      });
+
+    this.quantityChange$
+      .pipe(debounceTime(QUANTITY_DEBOUNCE_MS), takeUntilDestroyed())
+      .subscribe(() => this.saveQuantities());
+
+    // A change typed just before leaving the page is still sent; the cart
+    // service reports it if it is rejected
+    this.destroyRef.onDestroy(() => {
+      if (this.pendingQuantities.size === 0) return;
+      this.cartService.updateQuantities(this.takePendingQuantities()).subscribe();
+    });
+
+    // Reload when the same user changes the cart in another tab
+    this.cartService.externalCartChange$
+      .pipe(takeUntilDestroyed())
+      .subscribe((email) => {
+        if (!this.isViewingAsAdmin && email === this.currentViewedEmail) {
+          this.loadCartDetails(email);
+        }
+      });
+
     // afterNextRender runs once after the component is initially rendered
     afterNextRender(() => {
       // Any DOM-dependent initialization can go here
@@ -104,7 +163,7 @@ export class CartDetailsComponent {
 
   // Method to extract the group name from several possible locations
   private extractGroupName(detail: any): string {
-    if (!detail) return 'Sin grupo';
+    if (!detail) return '';
 
     // List of possible group name locations
     const possibleGroupPaths = [
@@ -125,7 +184,7 @@ export class CartDetailsComponent {
       name !== undefined && name !== null && name !== '' && name !== 'N/A'
     );
 
-    return groupName || 'Sin grupo';
+    return groupName || '';
   }
 
   private loadCartDetails(email: string): void {
@@ -133,25 +192,9 @@ export class CartDetailsComponent {
       .getCartDetailsByEmail(email)
       .pipe(
         takeUntilDestroyed(this.destroyRef),
-        map((response: any) => {
-          // Handle different response formats
-          let details = [];
-
-          // Handle array response
-          if (Array.isArray(response)) {
-            details = response;
-          }
-          // Handle { $id: "1", $values: [...] } format
-          else if (response && response.$values && Array.isArray(response.$values)) {
-            details = response.$values;
-          }
-          // Handle other possible formats
-          else if (response && response.Items) {
-            details = response.Items;
-          }
-
+        map((details: ICartDetail[]) =>
           // Process each detail to ensure it has all required fields
-          return details.map((detail: any) => {
+          details.map((detail) => {
             // Extract group information from various possible locations
             const groupName = this.extractGroupName(detail);
             // Return a properly formatted cart detail object
@@ -160,29 +203,66 @@ export class CartDetailsComponent {
               recordId: detail.recordId,
               amount: detail.amount || 0,
               cartId: detail.cartId,
-              recordTitle: detail.recordTitle || detail.record?.titleRecord || 'Sin título',
+              recordTitle: detail.recordTitle || detail.titleRecord || detail.record?.titleRecord || '',
               groupName: groupName,
               price: detail.price || 0,
               total: (detail.price || 0) * (detail.amount || 0),
               imageRecord: detail.imageRecord || detail.record?.imageRecord || 'assets/img/placeholder.png',
               record: detail.record
             };
-          });
-          return response?.$values || response?.Items || [];
-        }),
-        catchError((error) => {
-          console.error('Error loading cart details:', error);
-          return of([]); // Always return empty array on errors
-        })
+          })
+        ),
       )
-      .subscribe((details) => {
-        this.cartDetails = details;
-        this.filteredCartDetails = this.getFilteredCartDetails();
-        this.cdr.markForCheck();
-        this.loadRecordDetails();
+      .subscribe({
+        next: (details) => {
+          this.cartDetails = details;
+          this.filteredCartDetails = this.getFilteredCartDetails();
+          this.loadError = null;
+          this.cdr.markForCheck();
+          this.loadRecordDetails();
+        },
+        error: (error) => {
+          console.error('Error loading cart details:', error);
+          this.cartDetails = [];
+          this.filteredCartDetails = [];
+          this.loadError = AppError.from(error).message;
+          this.cdr.markForCheck();
+        },
       });
   }
 
+  private showGuestCart(lines: ICartLine[]): void {
+    this.cartDetails = lines.map((line) => ({
+      recordId: line.recordId,
+      amount: line.amount,
+      cartId: 0,
+      recordTitle: line.titleRecord,
+      groupName: line.groupName,
+      price: line.price,
+      total: line.price * line.amount,
+      imageRecord: line.imageRecord || 'assets/img/placeholder.png',
+      stock: line.stock,
+    }));
+    this.filteredCartDetails = this.getFilteredCartDetails();
+    this.loadError = null;
+    this.cdr.markForCheck();
+  }
+
+  dismissGuestCartConflicts(): void {
+    this.cartService.dismissGuestCartConflicts();
+  }
+
+  // The cart is merged into the account cart on login
+  signInToBuy(): void {
+    this.userService.redirectToLogin('/cart-details');
+  }
+
+  retryLoad(): void {
+    if (this.currentViewedEmail) {
+      this.loadCartDetails(this.currentViewedEmail);
+    }
+  }
+
   private readonly destroyRef = inject(DestroyRef);
 
   private loadRecordDetails(): void {
@@ -246,128 +326,112 @@ export class CartDetailsComponent {
     ) as ExtendedCartDetail[];
   }
 
-  async addToCart(detail: ICartDetail): Promise<void> {
-    if (!this.currentViewedEmail || this.isAddingToCart) return;
+  // Amount typed in a line, clamped to what the stock allows. The line changes
+  // at once; the changes of a short pause go to the cart in one batch
+  changeQuantity(detail: ExtendedCartDetail, value: number | null): void {
+    const amount = Math.min(Math.max(1, Math.round(value ?? 1)), this.maxAmount(detail));
+    this.setLineAmount(detail.recordId, amount);
+    this.pendingQuantities.set(detail.recordId, amount);
+    this.quantityChange$.next();
+  }
+
+  // An account cart reserves the stock, so the stock shown is what is left on
+  // top of the line; a visitor's line is capped by the stock itself
+  maxAmount(detail: ExtendedCartDetail): number {
+    if (detail.stock === undefined) return detail.amount;
+    return Math.max(1, this.isGuest ? detail.stock : detail.amount + detail.stock);
+  }
 
-    this.isAddingToCart = true;
-    this.clearAlert();
-    this.cdr.markForCheck();
+  hasUnsavedChanges(): boolean {
+    return this.pendingQuantities.size > 0 || this.isUpdatingCart;
+  }
 
-    try {
-      const updatedDetail = await this.cartDetailService
-        .addToCartDetail(this.currentViewedEmail, detail.recordId, 1)
-        .toPromise();
+  removeLine(detail: ExtendedCartDetail): void {
+    this.pendingQuantities.delete(detail.recordId);
+    this.filteredCartDetails = this.filteredCartDetails.filter((d) => d.recordId !== detail.recordId);
+    this.updateCart(this.cartService.updateQuantities([{ recordId: detail.recordId, amount: 0 }]));
+  }
 
-      // Update UI locally first for better user experience
-      const itemIndex = this.filteredCartDetails.findIndex(
-        (d) => d.recordId === detail.recordId
-      );
-      if (itemIndex !== -1) {
-        const updatedItem = {
-          ...this.filteredCartDetails[itemIndex],
-          amount: (this.filteredCartDetails[itemIndex].amount || 0) + 1,
-          stock:
-            updatedDetail?.stock || this.filteredCartDetails[itemIndex].stock,
-        };
-        this.filteredCartDetails[itemIndex] = updatedItem;
-        this.updateCartTotals();
-      }
-
-      // Refresh data from the server
-      await this.loadCartDetails(this.currentViewedEmail);
-
-      // Update the stock value in the UI
-      const updatedRecord = await this.cartDetailService
-        .getRecordDetails(detail.recordId)
-        .toPromise();
-      if (updatedRecord) {
-        const stockIndex = this.filteredCartDetails.findIndex(
-          (d) => d.recordId === detail.recordId
-        );
-        if (stockIndex !== -1) {
-          this.filteredCartDetails[stockIndex].stock = updatedRecord.stock;
-        }
-      }
+  // The line leaves the cart (its stock is released) but is kept in the list below
+  saveForLater(detail: ExtendedCartDetail): void {
+    this.pendingQuantities.delete(detail.recordId);
+    this.filteredCartDetails = this.filteredCartDetails.filter((d) => d.recordId !== detail.recordId);
+    this.updateCart(
+      this.savedForLaterService.saveForLater({
+        recordId: detail.recordId,
+        titleRecord: detail.recordTitle || '',
+        groupName: detail.groupName || '',
+        imageRecord: detail.imageRecord || null,
+        price: detail.price || 0,
+        amount: detail.amount,
+        stock: detail.stock ?? 0,
+      })
+    );
+  }
 
-      this.showAlert('Product added to cart', 'success');
-    } catch (error) {
-      console.error('Error adding to cart:', error);
-      this.showAlert('Failed to add product to cart', 'error');
-      // Revert local changes if it fails
-      const itemIndex = this.filteredCartDetails.findIndex(
-        (d) => d.recordId === detail.recordId
-      );
-      if (itemIndex !== -1) {
-        this.filteredCartDetails[itemIndex].amount -= 1;
-        this.updateCartTotals();
-      }
-    } finally {
-      this.isAddingToCart = false;
+  onSavedLineMovedToCart(): void {
+    if (this.currentViewedEmail) {
+      this.loadCartDetails(this.currentViewedEmail);
     }
   }
 
-  async removeRecord(detail: ICartDetail): Promise<void> {
-    if (!this.currentViewedEmail || detail.amount <= 0) return;
-
-    try {
-      await this.cartDetailService
-        .removeFromCartDetail(this.currentViewedEmail, detail.recordId, 1)
-        .toPromise();
+  // Every line is removed, which gives its stock back
+  clearCart(): void {
+    this.confirmationService.confirm({
+      message: 'Remove every record from the cart?',
+      header: 'Are you sure?',
+      icon: 'pi pi-exclamation-triangle',
+      acceptLabel: 'Yes',
+      acceptButtonStyleClass: 'p-button-danger',
+      accept: () => {
+        this.pendingQuantities.clear();
+        this.filteredCartDetails = [];
+        this.updateCart(this.cartService.clearCart());
+      },
+    });
+  }
 
-      // Update UI locally first for better user experience
-      const itemIndex = this.filteredCartDetails.findIndex(
-        (d) => d.recordId === detail.recordId
-      );
-      if (itemIndex !== -1) {
-        const updatedItem = {
-          ...this.filteredCartDetails[itemIndex],
-          amount: Math.max(
-            0,
-            (this.filteredCartDetails[itemIndex].amount || 0) - 1
-          ),
-        };
-        this.filteredCartDetails[itemIndex] = updatedItem;
-        this.updateCartTotals();
-      }
-
-      // Refresh data from the server
-      await this.loadCartDetails(this.currentViewedEmail);
-
-      // Update the stock value in the UI
-      const updatedRecord = await this.cartDetailService
-        .getRecordDetails(detail.recordId)
-        .toPromise();
-      if (updatedRecord) {
-        const stockIndex = this.filteredCartDetails.findIndex(
-          (d) => d.recordId === detail.recordId
-        );
-        if (stockIndex !== -1) {
-          this.filteredCartDetails[stockIndex].stock = updatedRecord.stock;
-        }
-      }
+  private saveQuantities(): void {
+    if (this.pendingQuantities.size === 0) return;
+    this.updateCart(this.cartService.updateQuantities(this.takePendingQuantities()));
+  }
 
-      this.showAlert('Product removed from cart', 'success');
-    } catch (error) {
-      console.error('Error removing from cart:', error);
-      this.showAlert('Failed to remove product from cart', 'error');
-      // On error, reload the cart from server to ensure UI is in sync with backend
-      await this.loadCartDetails(this.currentViewedEmail);
-    }
+  private takePendingQuantities(): ICartQuantityChange[] {
+    const changes = [...this.pendingQuantities].map(([recordId, amount]) => ({ recordId, amount }));
+    this.pendingQuantities.clear();
+    return changes;
   }
 
-  private updateCartTotals(): void {
-    const totalItems = this.filteredCartDetails.reduce(
-      (sum, d) => sum + d.amount,
-      0
-    );
-    const totalPrice = this.filteredCartDetails.reduce(
-      (sum, d) => sum + (d.price || 0) * d.amount,
-      0
-    );
-    this.cartService.updateCartNavbar(totalItems, totalPrice);
+  // The cart service rolls back and reports the lines the server rejects
+  private updateCart(operation: Observable<unknown>): void {
+    this.isUpdatingCart = true;
     this.cdr.markForCheck();
+    operation
+      .pipe(
+        takeUntilDestroyed(this.destroyRef),
+        finalize(() => {
+          this.isUpdatingCart = false;
+          // A visitor's lines come back through cart$; the account lines are
+          // read again unless more changes are waiting
+          if (!this.isGuest && this.currentViewedEmail && this.pendingQuantities.size === 0) {
+            this.loadCartDetails(this.currentViewedEmail);
+          }
+          this.cdr.markForCheck();
+        })
+      )
+      .subscribe();
   }
 
+  // The stock left changes with an account line, so its maximum stays the same
+  private setLineAmount(recordId: number, amount: number): void {
+    this.filteredCartDetails = this.filteredCartDetails.map((detail) => {
+      if (detail.recordId !== recordId) return detail;
+      const stock =
+        detail.stock === undefined || this.isGuest ? detail.stock : detail.stock - (amount - detail.amount);
+      return { ...detail, amount, stock, total: (detail.price || 0) * amount };
+    });
+    this.cdr.markForCheck();
+  }
 
   async createOrder(): Promise<void> {
     if (!this.currentViewedEmail || this.isViewingAsAdmin) return;
@@ -385,10 +449,9 @@ export class CartDetailsComponent {
       // Reset cart state after order creation
       this.cartService.resetCart();
       this.loadCartDetails(this.currentViewedEmail);
-    } catch (error: any) {
+    } catch (error) {
       console.error('Full error:', error);
-      const errorMsg = error.error?.message || 'Failed to create order';
-      this.showAlert(errorMsg, 'error');
+      this.showAlert(AppError.from(error).message, 'error');
     } finally {
       this.isCreatingOrder = false;
     }
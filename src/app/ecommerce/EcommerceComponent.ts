@@ -1,16 +1,18 @@
-import { Component } from '@angular/core';
+import { Component, inject } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { RouterModule } from '@angular/router';
+import { ConnectivityService } from '../shared/services/ConnectivityService';
+import { GenreNavComponent } from './genrenav/GenreNavComponent';
 
 @Component({
     selector: 'app-ecommerce',
     templateUrl: './EcommerceComponent.html',
     imports: [
         CommonModule,
-        RouterModule
+        RouterModule,
+        GenreNavComponent
     ]
 })
 export class EcommerceComponent {
-
+  readonly connectivity = inject(ConnectivityService);
 }
-
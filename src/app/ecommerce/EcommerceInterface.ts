@@ -1,3 +1,5 @@
+import { IPageQuery, IPagedResult } from '../interfaces/PagingInterface';
+
 export interface IGenre {
   idMusicGenre?: number;
   nameMusicGenre: string;
@@ -12,6 +14,9 @@ export interface IGroup {
   photoName?: string | null;
   totalRecords?: number;
   musicGenreId: number | null;
+  // Genre name as the groups endpoints send it
+  nameMusicGenre?: string;
+  // Genre name kept by the group form
   musicGenreName: string;
   musicGenre: string;
 }
@@ -33,8 +38,155 @@ export interface IRecord {
   photoName: string | null;
 }
 
+// Response of groups/recordsByGroup when it returns the group with its records
+export interface IGroupRecords {
+  nameGroup?: string;
+  group?: { nameGroup?: string };
+  records: IRecord[];
+}
+
+// Query of GET records/paged: search matches title, group name and year
+export interface IRecordQuery extends IPageQuery {
+  search?: string;
+  groupId?: number | string;
+  // Records of the groups of a genre
+  genreId?: number;
+}
+
+// Page of records matched in the browser (see RecordsService.searchRecordsPage)
+export interface IRecordSearchPage extends IPagedResult<IRecord> {
+  // Only the first SEARCH_MAX_RECORDS records of the group, genre or catalog were searched
+  cut: boolean;
+}
+
+// Facet filters of the public catalog, combined with AND between facets and
+// with OR between the values of a facet
+export interface ICatalogFilters {
+  search: string;
+  genreIds: number[];
+  groupIds: number[];
+  yearFrom: number | null;
+  yearTo: number | null;
+  priceFrom: number | null;
+  priceTo: number | null;
+  inStockOnly: boolean;
+  hideDiscontinued: boolean;
+}
+
+export interface IFacetOption {
+  id: number;
+  label: string;
+  count: number;
+}
+
+// Counts of each facet under the filters of the other facets
+export interface ICatalogFacets {
+  genres: IFacetOption[];
+  groups: IFacetOption[];
+  inStock: number;
+  discontinued: number;
+  minYear: number | null;
+  maxYear: number | null;
+  minPrice: number | null;
+  maxPrice: number | null;
+}
+
+// Records of a group released in the same year, null when the year is unknown
+export interface IDiscographyYear {
+  year: number | null;
+  records: IRecord[];
+}
+
+// Availability of the records of a group
+export interface IAvailabilitySummary {
+  total: number;
+  inStock: number;
+  outOfStock: number;
+  discontinued: number;
+}
+
+// Matches of a catalog search, for the navbar suggestions and the results page
+export interface ISearchResults {
+  term: string;
+  genres: IGenre[];
+  groups: IGroup[];
+  records: IRecord[];
+  totalRecords: number;
+}
+
+// Record saved to the wishlist, with the details it had when it was saved so
+// that the list can be shown before the records are loaded
+export interface IWishlistItem {
+  recordId: number;
+  titleRecord: string;
+  groupName: string;
+  imageRecord: string | null;
+  price: number;
+  addedAt: string;
+}
+
+// Cart line set aside by the customer, with the price it had when it was saved
+export interface ISavedForLaterItem {
+  recordId: number;
+  titleRecord: string;
+  groupName: string;
+  imageRecord: string | null;
+  price: number;
+  amount: number;
+  savedAt: string;
+}
+
+export type RecordAlertKind = 'backInStock' | 'priceBelow';
+
+// "Notify me" subscription of a customer on a record; it fires once
+export interface IRecordAlert {
+  recordId: number;
+  kind: RecordAlertKind;
+  // Price the record has to drop to, for priceBelow alerts
+  targetPrice: number | null;
+  titleRecord: string;
+  createdAt: string;
+  // When the condition was met, null while the record is still watched
+  triggeredAt: string | null;
+}
+
+// In-app message of a fired alert, listed in the navbar
+export interface IAlertNotification {
+  id: string;
+  recordId: number;
+  message: string;
+  createdAt: string;
+  read: boolean;
+}
+
+// Line of a visitor's cart that could not be fully added to the account cart on login
+// A line of the cart: the record as it was added, with its amount. The stock is
+// what is left after the account carts (a visitor's cart does not reserve it)
+export interface ICartLine {
+  recordId: number;
+  titleRecord: string;
+  groupName: string;
+  imageRecord: string | null;
+  price: number;
+  amount: number;
+  stock: number;
+}
+
+// New amount of a cart line, 0 removes it
+export interface ICartQuantityChange {
+  recordId: number;
+  amount: number;
+}
+
+export interface IGuestCartConflict {
+  recordId: number;
+  titleRecord: string;
+  requested: number;
+  added: number;
+}
+
 export interface ICartDetail {
-  recordTitle: string;
+  recordTitle?: string;
   idCartDetail?: number;
   recordId: number;
   amount: number;
@@ -42,12 +194,14 @@ export interface ICartDetail {
   record?: IRecord;
   titleRecord?: string;
   groupName?: string;
+  imageRecord?: string | null;
   price?: number;
   total?: number;
+  stock?: number;
 }
 
 export interface ICart {
-  cartDetails?: any;
+  cartDetails?: ICartDetail[];
   idCart: number;
   userEmail: string;
   totalPrice: number;
@@ -0,0 +1,144 @@
+import {
+  ObjectShape,
+  arrayOf,
+  booleanSchema,
+  dateSchema,
+  nullable,
+  numberSchema,
+  objectOf,
+  oneOf,
+  optional,
+  stringSchema,
+} from '../services/Schema';
+import {
+  CartDetailItem,
+  ExtendedCartDetail,
+  ICart,
+  ICartDetail,
+  IGenre,
+  IGroup,
+  IGroupRecords,
+  IOrder,
+  IOrderDetail,
+  IRecord,
+  IRecordAlert,
+  IUser,
+  IWishlistItem,
+} from './EcommerceInterface';
+
+// Response schemas for the interfaces in EcommerceInterface.ts. Client-only
+// fields (photo, inCart, ...) are not part of the contract and are left out
+
+export const genreSchema = objectOf<IGenre>({
+  idMusicGenre: optional(numberSchema),
+  nameMusicGenre: stringSchema,
+  totalGroups: optional(numberSchema),
+});
+
+export const groupSchema = objectOf<IGroup>({
+  idGroup: numberSchema,
+  nameGroup: stringSchema,
+  imageGroup: nullable(stringSchema),
+  totalRecords: optional(numberSchema),
+  musicGenreId: nullable(numberSchema),
+  nameMusicGenre: optional(stringSchema),
+});
+
+export const recordSchema = objectOf<IRecord>({
+  idRecord: numberSchema,
+  titleRecord: stringSchema,
+  yearOfPublication: nullable(numberSchema),
+  price: numberSchema,
+  stock: numberSchema,
+  discontinued: booleanSchema,
+  groupId: nullable(numberSchema),
+  imageRecord: nullable(stringSchema),
+});
+
+export const groupRecordsSchema = objectOf<IGroupRecords>({
+  nameGroup: optional(stringSchema),
+  group: optional(objectOf<{ nameGroup?: string }>({ nameGroup: optional(stringSchema) })),
+  records: arrayOf(recordSchema),
+});
+
+const cartDetailShape: ObjectShape<ICartDetail> = {
+  idCartDetail: optional(numberSchema),
+  recordId: numberSchema,
+  amount: numberSchema,
+  cartId: numberSchema,
+  recordTitle: optional(stringSchema),
+  titleRecord: optional(stringSchema),
+  groupName: optional(stringSchema),
+  imageRecord: nullable(stringSchema),
+  price: optional(numberSchema),
+  total: optional(numberSchema),
+  stock: optional(numberSchema),
+  record: optional(recordSchema),
+};
+
+export const cartDetailSchema = objectOf<ICartDetail>(cartDetailShape);
+
+export const extendedCartDetailSchema = objectOf<ExtendedCartDetail>(cartDetailShape);
+
+export const cartDetailItemSchema = objectOf<CartDetailItem>({
+  idCartDetail: numberSchema,
+  cartId: numberSchema,
+  recordId: numberSchema,
+  imageRecord: stringSchema,
+  titleRecord: stringSchema,
+  groupName: stringSchema,
+  amount: numberSchema,
+  price: numberSchema,
+  total: numberSchema,
+});
+
+export const cartSchema = objectOf<ICart>({
+  idCart: numberSchema,
+  userEmail: stringSchema,
+  totalPrice: numberSchema,
+  enabled: optional(booleanSchema),
+  cartDetails: optional(arrayOf(cartDetailSchema)),
+});
+
+export const orderDetailSchema = objectOf<IOrderDetail>({
+  idOrderDetail: numberSchema,
+  orderId: numberSchema,
+  recordId: numberSchema,
+  recordTitle: optional(stringSchema),
+  amount: numberSchema,
+  price: numberSchema,
+  total: numberSchema,
+});
+
+export const orderSchema = objectOf<IOrder>({
+  idOrder: numberSchema,
+  orderDate: dateSchema,
+  paymentMethod: stringSchema,
+  total: numberSchema,
+  userEmail: stringSchema,
+  cartId: numberSchema,
+  orderDetails: arrayOf(orderDetailSchema),
+});
+
+export const wishlistItemSchema = objectOf<IWishlistItem>({
+  recordId: numberSchema,
+  titleRecord: stringSchema,
+  groupName: stringSchema,
+  imageRecord: nullable(stringSchema),
+  price: numberSchema,
+  addedAt: dateSchema,
+});
+
+export const recordAlertSchema = objectOf<IRecordAlert>({
+  recordId: numberSchema,
+  kind: oneOf('backInStock', 'priceBelow'),
+  targetPrice: nullable(numberSchema),
+  titleRecord: stringSchema,
+  createdAt: dateSchema,
+  triggeredAt: nullable(dateSchema),
+});
+
+export const userSchema = objectOf<IUser>({
+  email: stringSchema,
+  role: stringSchema,
+});
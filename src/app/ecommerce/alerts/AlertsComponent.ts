@@ -0,0 +1,59 @@
+import { Component, inject, ChangeDetectionStrategy, ChangeDetectorRef } from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { CommonModule } from '@angular/common';
+import { RouterModule } from '@angular/router';
+import { ButtonModule } from 'primeng/button';
+import { IAlertNotification, IRecordAlert } from '../EcommerceInterface';
+import { AlertsService } from '../services/AlertsService';
+
+// The customer's back-in-stock and price-drop alerts and the notifications they sent
+@Component({
+    selector: 'app-alerts',
+    templateUrl: './AlertsComponent.html',
+    changeDetection: ChangeDetectionStrategy.OnPush,
+    imports: [
+        CommonModule,
+        RouterModule,
+        ButtonModule
+    ]
+})
+export class AlertsComponent {
+  // Watched alerts first, then the fired ones, newest first
+  alerts: IRecordAlert[] = [];
+  notifications: IAlertNotification[] = [];
+
+  private readonly alertsService = inject(AlertsService);
+  private readonly cdr = inject(ChangeDetectorRef);
+
+  constructor() {
+    this.alertsService.alerts$.pipe(takeUntilDestroyed()).subscribe((alerts) => {
+      this.alerts = [...alerts].sort(
+        (a, b) =>
+          Number(a.triggeredAt !== null) - Number(b.triggeredAt !== null) ||
+          b.createdAt.localeCompare(a.createdAt)
+      );
+      this.cdr.markForCheck();
+    });
+
+    this.alertsService.notifications$.pipe(takeUntilDestroyed()).subscribe((notifications) => {
+      this.notifications = notifications;
+      this.cdr.markForCheck();
+    });
+  }
+
+  get hasUnread(): boolean {
+    return this.notifications.some((notification) => !notification.read);
+  }
+
+  remove(alert: IRecordAlert): void {
+    this.alertsService.unwatch(alert);
+  }
+
+  markAllRead(): void {
+    this.alertsService.markAllRead();
+  }
+
+  clearNotifications(): void {
+    this.alertsService.clearNotifications();
+  }
+}
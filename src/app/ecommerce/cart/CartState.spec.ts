@@ -0,0 +1,231 @@
+import { ICartLine } from '../EcommerceInterface';
+import {
+  EMPTY_CART_STATE,
+  ICartState,
+  addToCart,
+  loadLines,
+  removeFromCart,
+  resetCart,
+  restoreLine,
+  selectCount,
+  selectLine,
+  selectStock,
+  selectStockChanges,
+  selectTotal,
+  setPending,
+  setQuantity,
+  setStock,
+  setStocks,
+} from './CartState';
+
+function lineOf(recordId: number, amount = 1, price = 10, stock = 5): ICartLine {
+  return {
+    recordId,
+    titleRecord: `Record ${recordId}`,
+    groupName: 'Group',
+    imageRecord: null,
+    price,
+    amount,
+    stock,
+  };
+}
+
+function stateWith(...lines: ICartLine[]): ICartState {
+  return { ...EMPTY_CART_STATE, lines };
+}
+
+describe('CartState', () => {
+  describe('loadLines', () => {
+    it('replaces the lines', () => {
+      const state = loadLines(stateWith(lineOf(1)), [lineOf(2, 3)]);
+      expect(state.lines).toEqual([lineOf(2, 3)]);
+    });
+
+    it('drops the lines without amount', () => {
+      const state = loadLines(EMPTY_CART_STATE, [lineOf(1, 0), lineOf(2, 2)]);
+      expect(state.lines.map((line) => line.recordId)).toEqual([2]);
+    });
+
+    it('keeps the pending records and the stock', () => {
+      const before: ICartState = { lines: [], pending: [1], stock: { 1: 3 } };
+      const state = loadLines(before, [lineOf(1)]);
+      expect(state.pending).toEqual([1]);
+      expect(state.stock).toEqual({ 1: 3 });
+    });
+  });
+
+  describe('addToCart', () => {
+    it('adds a new line with the amount', () => {
+      const state = addToCart(EMPTY_CART_STATE, lineOf(1, 0), 2);
+      expect(state.lines).toEqual([lineOf(1, 2)]);
+    });
+
+    it('adds one unit by default', () => {
+      const state = addToCart(EMPTY_CART_STATE, lineOf(1, 0));
+      expect(selectLine(state, 1)?.amount).toBe(1);
+    });
+
+    it('adds to the amount of an existing line', () => {
+      const state = addToCart(stateWith(lineOf(1, 2)), lineOf(1, 0), 3);
+      expect(state.lines.length).toBe(1);
+      expect(selectLine(state, 1)?.amount).toBe(5);
+    });
+
+    it('does not change the state it receives', () => {
+      const before = stateWith(lineOf(1, 2));
+      addToCart(before, lineOf(1, 0));
+      addToCart(before, lineOf(2, 0));
+      expect(before).toEqual(stateWith(lineOf(1, 2)));
+    });
+  });
+
+  describe('removeFromCart', () => {
+    it('takes one unit by default', () => {
+      const state = removeFromCart(stateWith(lineOf(1, 3)), 1);
+      expect(selectLine(state, 1)?.amount).toBe(2);
+    });
+
+    it('removes the line when no amount is left', () => {
+      const state = removeFromCart(stateWith(lineOf(1, 2), lineOf(2)), 1, 2);
+      expect(selectLine(state, 1)).toBeUndefined();
+      expect(state.lines.length).toBe(1);
+    });
+
+    it('ignores records that are not in the cart', () => {
+      const before = stateWith(lineOf(1));
+      expect(removeFromCart(before, 2)).toBe(before);
+    });
+  });
+
+  describe('setQuantity', () => {
+    it('sets the amount of the line', () => {
+      const state = setQuantity(stateWith(lineOf(1, 1), lineOf(2, 1)), 1, 4);
+      expect(selectLine(state, 1)?.amount).toBe(4);
+      expect(selectLine(state, 2)?.amount).toBe(1);
+    });
+
+    it('removes the line for 0 or less', () => {
+      expect(setQuantity(stateWith(lineOf(1)), 1, 0).lines).toEqual([]);
+      expect(setQuantity(stateWith(lineOf(1)), 1, -2).lines).toEqual([]);
+    });
+  });
+
+  describe('resetCart', () => {
+    it('empties the cart', () => {
+      const state = resetCart(stateWith(lineOf(1), lineOf(2)));
+      expect(state.lines).toEqual([]);
+      expect(selectCount(state)).toBe(0);
+    });
+
+    it('keeps the pending records and the stock', () => {
+      const state = resetCart({ lines: [lineOf(1)], pending: [1], stock: { 1: 4 } });
+      expect(state.pending).toEqual([1]);
+      expect(state.stock).toEqual({ 1: 4 });
+    });
+  });
+
+  describe('setPending', () => {
+    it('marks and releases a record', () => {
+      const pending = setPending(EMPTY_CART_STATE, 1, true);
+      expect(pending.pending).toEqual([1]);
+      expect(setPending(pending, 1, false).pending).toEqual([]);
+    });
+
+    it('lists a record once', () => {
+      const state = setPending(setPending(EMPTY_CART_STATE, 1, true), 1, true);
+      expect(state.pending).toEqual([1]);
+    });
+
+    it('leaves the other records alone', () => {
+      const state = setPending({ ...EMPTY_CART_STATE, pending: [1, 2] }, 1, false);
+      expect(state.pending).toEqual([2]);
+    });
+  });
+
+  describe('setStock', () => {
+    it('keeps the stock of records that are not in the cart', () => {
+      const state = setStock(EMPTY_CART_STATE, 7, 3);
+      expect(selectStock(state, 7)).toBe(3);
+      expect(state.lines).toEqual([]);
+    });
+
+    it('updates the stock of the line', () => {
+      const state = setStock(stateWith(lineOf(1, 1, 10, 5), lineOf(2, 1, 10, 5)), 1, 2);
+      expect(selectLine(state, 1)?.stock).toBe(2);
+      expect(selectLine(state, 2)?.stock).toBe(5);
+    });
+
+    it('returns the same state when the stock did not change', () => {
+      const before = setStock(EMPTY_CART_STATE, 1, 3);
+      expect(setStock(before, 1, 3)).toBe(before);
+    });
+
+    it('sets the stock of several records at once', () => {
+      const state = setStocks(EMPTY_CART_STATE, [
+        { recordId: 1, newStock: 0 },
+        { recordId: 2, newStock: 8 },
+      ]);
+      expect(selectStock(state, 1)).toBe(0);
+      expect(selectStock(state, 2)).toBe(8);
+      expect(selectStock(state, 3)).toBeNull();
+    });
+
+    it('reports the records whose stock changed', () => {
+      const before = setStocks(EMPTY_CART_STATE, [
+        { recordId: 1, newStock: 1 },
+        { recordId: 2, newStock: 2 },
+      ]);
+      const after = setStocks(before, [
+        { recordId: 1, newStock: 1 },
+        { recordId: 2, newStock: 0 },
+        { recordId: 3, newStock: 4 },
+      ]);
+      expect(selectStockChanges(before, after)).toEqual([
+        { recordId: 2, newStock: 0 },
+        { recordId: 3, newStock: 4 },
+      ]);
+      expect(selectStockChanges(after, after)).toEqual([]);
+    });
+  });
+
+  describe('restoreLine', () => {
+    it('puts back the line as it was before a rejected change', () => {
+      const before = stateWith(lineOf(1, 2), lineOf(2, 1));
+      const changed = addToCart(addToCart(before, lineOf(1, 0), 3), lineOf(2, 0));
+      const state = restoreLine(changed, 1, lineOf(1, 2));
+      expect(selectLine(state, 1)?.amount).toBe(2);
+      // The change of the other record is not undone
+      expect(selectLine(state, 2)?.amount).toBe(2);
+    });
+
+    it('adds back a line that was removed', () => {
+      const state = restoreLine(setQuantity(stateWith(lineOf(1, 2)), 1, 0), 1, lineOf(1, 2));
+      expect(state.lines).toEqual([lineOf(1, 2)]);
+    });
+
+    it('removes a line that did not exist before', () => {
+      const state = restoreLine(addToCart(EMPTY_CART_STATE, lineOf(1, 0)), 1, undefined);
+      expect(state.lines).toEqual([]);
+    });
+  });
+
+  describe('selectors', () => {
+    it('counts the units of every line', () => {
+      expect(selectCount(stateWith(lineOf(1, 2), lineOf(2, 3)))).toBe(5);
+      expect(selectCount(EMPTY_CART_STATE)).toBe(0);
+    });
+
+    it('adds up price times amount', () => {
+      expect(selectTotal(stateWith(lineOf(1, 2, 10), lineOf(2, 1, 4.5)))).toBe(24.5);
+      expect(selectTotal(EMPTY_CART_STATE)).toBe(0);
+    });
+
+    it('follow the reducers', () => {
+      let state = addToCart(EMPTY_CART_STATE, lineOf(1, 0, 12), 2);
+      state = addToCart(state, lineOf(2, 0, 3));
+      state = removeFromCart(state, 1);
+      expect(selectCount(state)).toBe(2);
+      expect(selectTotal(state)).toBe(15);
+    });
+  });
+});
@@ -0,0 +1,151 @@
+import { ICartDetail, ICartLine, IRecord } from '../EcommerceInterface';
+
+// Everything the storefront knows about the cart. The reducers below are the
+// only way it changes; they are pure, side effects live in the CartService
+export interface ICartState {
+  lines: ICartLine[];
+  // Records with a change waiting for the server
+  pending: number[];
+  // Last stock known of each record, whether it is in the cart or not
+  stock: Record<number, number>;
+}
+
+export interface IStockUpdate {
+  recordId: number;
+  newStock: number;
+}
+
+export const EMPTY_CART_STATE: ICartState = {
+  lines: [],
+  pending: [],
+  stock: {},
+};
+
+export function cartLineOf(record: IRecord, amount = 1): ICartLine {
+  return {
+    recordId: record.idRecord,
+    titleRecord: record.titleRecord,
+    groupName: record.groupName || record.nameGroup || '',
+    imageRecord: record.imageRecord,
+    price: Number(record.price) || 0,
+    amount,
+    stock: record.stock,
+  };
+}
+
+// Cart line from the shopping service
+export function cartLineOfDetail(detail: ICartDetail): ICartLine {
+  return {
+    recordId: detail.recordId,
+    titleRecord: detail.titleRecord || detail.recordTitle || '',
+    groupName: detail.groupName || '',
+    imageRecord: detail.imageRecord || null,
+    price: Number(detail.price) || 0,
+    amount: Number(detail.amount) || 1,
+    stock: detail.stock || 0,
+  };
+}
+
+// Lines without amount are dropped
+export function loadLines(state: ICartState, lines: ICartLine[]): ICartState {
+  return { ...state, lines: lines.filter((line) => line.amount > 0) };
+}
+
+export function addToCart(state: ICartState, line: ICartLine, amount = 1): ICartState {
+  const existing = selectLine(state, line.recordId);
+  if (!existing) {
+    return { ...state, lines: [...state.lines, { ...line, amount }] };
+  }
+  return setQuantity(state, line.recordId, existing.amount + amount);
+}
+
+export function removeFromCart(state: ICartState, recordId: number, amount = 1): ICartState {
+  const existing = selectLine(state, recordId);
+  return existing ? setQuantity(state, recordId, existing.amount - amount) : state;
+}
+
+// 0 or less removes the line
+export function setQuantity(state: ICartState, recordId: number, amount: number): ICartState {
+  if (amount <= 0) {
+    return { ...state, lines: state.lines.filter((line) => line.recordId !== recordId) };
+  }
+  return {
+    ...state,
+    lines: state.lines.map((line) => (line.recordId === recordId ? { ...line, amount } : line)),
+  };
+}
+
+export function setStock(state: ICartState, recordId: number, stock: number): ICartState {
+  return setStocks(state, [{ recordId, newStock: stock }]);
+}
+
+// The stock of several records at once, e.g. from a page of the catalog
+export function setStocks(state: ICartState, updates: IStockUpdate[]): ICartState {
+  const changed = updates.filter((update) => state.stock[update.recordId] !== update.newStock);
+  if (changed.length === 0) {
+    return state;
+  }
+  const stock = { ...state.stock };
+  changed.forEach((update) => (stock[update.recordId] = update.newStock));
+  return {
+    ...state,
+    stock,
+    lines: state.lines.map((line) =>
+      changed.some((update) => update.recordId === line.recordId) ? { ...line, stock: stock[line.recordId] } : line
+    ),
+  };
+}
+
+// Puts a line back as it was (or removes it), leaving the other lines alone
+export function restoreLine(state: ICartState, recordId: number, line: ICartLine | undefined): ICartState {
+  if (!line) {
+    return setQuantity(state, recordId, 0);
+  }
+  if (!selectLine(state, recordId)) {
+    return { ...state, lines: [...state.lines, line] };
+  }
+  return {
+    ...state,
+    lines: state.lines.map((existing) => (existing.recordId === recordId ? line : existing)),
+  };
+}
+
+export function setPending(state: ICartState, recordId: number, pending: boolean): ICartState {
+  const others = state.pending.filter((id) => id !== recordId);
+  return { ...state, pending: pending ? [...others, recordId] : others };
+}
+
+// The changes waiting for the server and the stock are not forgotten by a reset
+export function resetCart(state: ICartState): ICartState {
+  return { ...state, lines: [] };
+}
+
+export function selectLine(state: ICartState, recordId: number): ICartLine | undefined {
+  return state.lines.find((line) => line.recordId === recordId);
+}
+
+export function selectCount(state: ICartState): number {
+  return state.lines.reduce((count, line) => count + line.amount, 0);
+}
+
+export function selectTotal(state: ICartState): number {
+  return state.lines.reduce((total, line) => total + line.price * line.amount, 0);
+}
+
+export function selectStock(state: ICartState, recordId: number): number | null {
+  return state.stock[recordId] ?? null;
+}
+
+// Records whose stock is not the same in both states
+export function selectStockChanges(previous: ICartState, current: ICartState): IStockUpdate[] {
+  if (previous.stock === current.stock) {
+    return [];
+  }
+  return Object.entries(current.stock)
+    .map(([recordId, newStock]) => ({ recordId: Number(recordId), newStock }))
+    .filter((update) => previous.stock[update.recordId] !== update.newStock);
+}
+
+export function isPending(state: ICartState, recordId: number): boolean {
+  return state.pending.includes(recordId);
+}
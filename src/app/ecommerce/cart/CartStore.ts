@@ -0,0 +1,47 @@
+import { Injectable, computed, signal } from '@angular/core';
+import { Subject } from 'rxjs';
+import { ICartLine } from '../EcommerceInterface';
+import {
+  EMPTY_CART_STATE,
+  ICartState,
+  IStockUpdate,
+  selectCount,
+  selectStockChanges,
+  selectTotal,
+  setStocks,
+} from './CartState';
+
+// Cart of the current user (or visitor) and the stock of the records seen, as
+// signals. It changes only through the reducers of CartState; the CartService
+// runs the side effects around it
+@Injectable({
+  providedIn: 'root',
+})
+export class CartStore {
+  private readonly state = signal<ICartState>(EMPTY_CART_STATE);
+  private readonly stockUpdateSubject = new Subject<IStockUpdate>();
+
+  readonly lines = computed<ICartLine[]>(() => this.state().lines);
+  readonly count = computed(() => selectCount(this.state()));
+  readonly total = computed(() => selectTotal(this.state()));
+  readonly pending = computed<ReadonlySet<number>>(() => new Set(this.state().pending));
+  // Each change of the stock of a record, as it happens
+  readonly stockUpdate$ = this.stockUpdateSubject.asObservable();
+
+  get snapshot(): ICartState {
+    return this.state();
+  }
+
+  update(reducer: (state: ICartState) => ICartState): void {
+    const previous = this.state();
+    this.state.update(reducer);
+    selectStockChanges(previous, this.state()).forEach((update) => this.stockUpdateSubject.next(update));
+  }
+
+  // Stock read from the catalog service
+  updateStocks(records: { idRecord: number; stock: number }[]): void {
+    this.update((state) =>
+      setStocks(state, records.map((record) => ({ recordId: record.idRecord, newStock: record.stock })))
+    );
+  }
+}
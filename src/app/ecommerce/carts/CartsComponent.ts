@@ -1,4 +1,4 @@
-import { Component, inject, afterNextRender, ChangeDetectionStrategy, ChangeDetectorRef } from '@angular/core';
+import { Component, inject, afterNextRender, ChangeDetectionStrategy, ChangeDetectorRef, DestroyRef } from '@angular/core';
 import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
 import { CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms';
@@ -11,7 +11,12 @@ import { ButtonModule } from 'primeng/button';
 import { TagModule } from 'primeng/tag';
 import { TooltipModule } from 'primeng/tooltip';
 import { ConfirmDialogModule } from 'primeng/confirmdialog';
-import { DialogModule } from 'primeng/dialog';
+import { AppError } from 'src/app/services/AppError';
+import { LoadErrorComponent } from 'src/app/shared/load-error/LoadErrorComponent';
+import { HighlightPipe } from 'src/app/shared/pipes/HighlightPipe';
+import { NotificationService } from 'src/app/shared/services/NotificationService';
+import { ListUrlState } from 'src/app/shared/utils/ListUrlState';
+import { searchItems } from 'src/app/shared/utils/TextSearch';
 
 @Component({
     selector: 'app-carts',
@@ -27,27 +32,48 @@ import { DialogModule } from 'primeng/dialog';
         TagModule,
         TooltipModule,
         ConfirmDialogModule,
-        DialogModule
+        LoadErrorComponent,
+        HighlightPipe
     ]
 })
 export class CartsComponent {
   carts: ICart[] = [];
   filteredCarts: ICart[] = [];
+  // Set when the list could not be loaded, as opposed to an empty list
+  loadError: string | null = null;
   loading = false;
-  errorMessage = '';
   isAdmin = false;
   searchText: string = '';
-  visibleError = false;
+  // Table state mirrored from the query params
+  first = 0;
+  rows = 5;
+  sortField: string | null = null;
+  sortOrder: 1 | -1 = 1;
 
   private readonly cartService = inject(CartService);
   private readonly userService = inject(UserService);
   private readonly router = inject(Router);
+  private readonly notifications = inject(NotificationService);
   private readonly cdr = inject(ChangeDetectorRef);
+  private readonly destroyRef = inject(DestroyRef);
+  readonly listState = new ListUrlState({ rows: 5 });
 
   constructor() {
     this.isAdmin = this.userService.isAdmin();
     this.loadCarts();
 
+    // Search, page and sort come from the URL, also on back/forward
+    this.listState.changes$.pipe(takeUntilDestroyed()).subscribe((state) => {
+      if (state.search !== this.searchText.trim()) {
+        this.searchText = state.search;
+      }
+      this.first = this.listState.firstRow(state);
+      this.rows = state.rows;
+      this.sortField = state.sortField;
+      this.sortOrder = state.sortOrder;
+      this.filterCarts();
+    });
+
     // afterNextRender runs once after the component is initially rendered
     afterNextRender(() => {
       // Any DOM-dependent initialization can go here
@@ -56,29 +82,21 @@ export class CartsComponent {
 
   loadCarts(): void {
     this.loading = true;
+    this.loadError = null;
     this.cdr.markForCheck();
 
     if (this.isAdmin) {
       this.cartService.getAllCarts().pipe(
-        takeUntilDestroyed()
+        takeUntilDestroyed(this.destroyRef)
       ).subscribe({
-        next: (data: any) => {
-          // Extracts values ​​correctly from the response object
-          const receivedCarts = data.$values || data;
-
-          // Ensures that it is always an array
-          this.carts = Array.isArray(receivedCarts)
-            ? receivedCarts
-            : [receivedCarts];
-
-          this.filteredCarts = [...this.carts];
+        next: (carts: ICart[]) => {
+          this.carts = carts;
           this.loading = false;
-          this.cdr.markForCheck();
+          this.filterCarts();
         },
         error: (error) => {
           console.error('Error:', error);
-          this.errorMessage = 'Error loading carts';
-          this.visibleError = true;
+          this.loadError = AppError.from(error).message;
           this.loading = false;
           this.cdr.markForCheck();
         },
@@ -86,25 +104,30 @@ export class CartsComponent {
     } else {
       const userEmail = this.userService.email;
       if (!userEmail) {
-        this.errorMessage = 'No user logged in';
-        this.visibleError = true;
+        this.notifications.warn('No user logged in');
         this.loading = false;
         this.cdr.markForCheck();
         return;
       }
 
       this.cartService.getCart(userEmail).pipe(
-        takeUntilDestroyed()
+        takeUntilDestroyed(this.destroyRef)
       ).subscribe({
         next: (data) => {
           this.carts = Array.isArray(data) ? data : [data];
-          this.filteredCarts = [...this.carts];
           this.loading = false;
-          this.cdr.markForCheck();
+          this.filterCarts();
         },
         error: (error) => {
-          this.errorMessage = 'Error loading your cart';
-          this.visibleError = true;
+          const appError = AppError.from(error);
+          // A user who never had a cart is not an error
+          if (appError.kind === 'notFound') {
+            this.carts = [];
+            this.loading = false;
+            this.filterCarts();
+            return;
+          }
+          this.loadError = appError.message;
           this.loading = false;
           this.cdr.markForCheck();
         },
@@ -113,18 +136,15 @@ export class CartsComponent {
   }
 
   filterCarts() {
-    if (!this.searchText) {
-      this.filteredCarts = [...this.carts];
-    } else {
-      this.filteredCarts = this.carts.filter((cart) =>
-        cart.userEmail.toLowerCase().includes(this.searchText.toLowerCase())
-      );
-    }
+    this.filteredCarts = searchItems(this.carts, this.searchText, [
+      { value: (cart) => cart.userEmail, weight: 1 },
+    ]);
     this.cdr.markForCheck();
   }
 
   onSearchChange() {
     this.filterCarts();
+    this.listState.search(this.searchText);
   }
 
   // Method to navigate to details
@@ -143,7 +163,7 @@ export class CartsComponent {
       : this.cartService.disableCart(email);
 
     operation.pipe(
-      takeUntilDestroyed()
+      takeUntilDestroyed(this.destroyRef)
     ).subscribe({
       next: (updatedCart) => {
         // Update cart locally
@@ -161,8 +181,7 @@ export class CartsComponent {
       },
       error: (error) => {
         console.error('Error toggling cart status:', error);
-        this.errorMessage = `Error ${enable ? 'enabling' : 'disabling'} cart`;
-        this.visibleError = true;
+        this.notifications.error(error, `Error ${enable ? 'enabling' : 'disabling'} cart`);
         this.loading = false;
         this.cdr.markForCheck();
       },
@@ -0,0 +1,152 @@
+import { Component, inject, ChangeDetectionStrategy, ChangeDetectorRef, DestroyRef } from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { ActivatedRoute, RouterModule } from '@angular/router';
+import { TableModule } from 'primeng/table';
+import { ButtonModule } from 'primeng/button';
+import { forkJoin, of } from 'rxjs';
+import { catchError, finalize } from 'rxjs/operators';
+import { ICatalogFacets, ICatalogFilters, IRecord } from '../EcommerceInterface';
+import { RecordsService } from '../services/RecordsService';
+import { GroupsService } from '../services/GroupsService';
+import { GenresService } from '../services/GenresService';
+import { CatalogIndex, EMPTY_CATALOG_FILTERS } from './CatalogFacets';
+import { AppError } from 'src/app/services/AppError';
+import { LoadErrorComponent } from 'src/app/shared/load-error/LoadErrorComponent';
+import { HighlightPipe } from 'src/app/shared/pipes/HighlightPipe';
+import { WishlistButtonComponent } from '../wishlist/WishlistButtonComponent';
+
+// The facets are counted in the browser, as the catalog service has no
+// endpoint for them, so the catalog is read a page at a time up to this many
+// records; past it the filters and counts only cover the first ones read
+const CATALOG_MAX_RECORDS = 5000;
+const CATALOG_PAGE_SIZE = 500;
+
+@Component({
+    selector: 'app-catalog',
+    imports: [
+        CommonModule,
+        FormsModule,
+        RouterModule,
+        TableModule,
+        ButtonModule,
+        LoadErrorComponent,
+        HighlightPipe,
+        WishlistButtonComponent
+    ],
+    templateUrl: './CatalogComponent.html',
+    changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class CatalogComponent {
+  filters: ICatalogFilters = { ...EMPTY_CATALOG_FILTERS };
+  facets: ICatalogFacets | null = null;
+  results: IRecord[] = [];
+  loading = false;
+  // Set when the catalog could not be loaded, as opposed to an empty catalog
+  loadError: string | null = null;
+  // Set when the catalog has more records than were read
+  cutAt: { read: number; total: number } | null = null;
+  private index: CatalogIndex | null = null;
+
+  private readonly route = inject(ActivatedRoute);
+  private readonly recordsService = inject(RecordsService);
+  private readonly groupsService = inject(GroupsService);
+  private readonly genresService = inject(GenresService);
+  private readonly cdr = inject(ChangeDetectorRef);
+  private readonly destroyRef = inject(DestroyRef);
+
+  constructor() {
+    // The search results page links here with its search (?q=)
+    this.filters = { ...this.filters, search: this.route.snapshot.queryParamMap.get('q') ?? '' };
+    this.loadCatalog();
+  }
+
+  get activeFilterCount(): number {
+    const filters = this.filters;
+    return (
+      (filters.search.trim() ? 1 : 0) +
+      filters.genreIds.length +
+      filters.groupIds.length +
+      (filters.yearFrom !== null || filters.yearTo !== null ? 1 : 0) +
+      (filters.priceFrom !== null || filters.priceTo !== null ? 1 : 0) +
+      (filters.inStockOnly ? 1 : 0) +
+      (filters.hideDiscontinued ? 1 : 0)
+    );
+  }
+
+  loadCatalog(): void {
+    this.loading = true;
+    this.loadError = null;
+    this.cdr.markForCheck();
+
+    forkJoin({
+      page: this.recordsService.getRecordsUpTo({}, CATALOG_MAX_RECORDS, CATALOG_PAGE_SIZE),
+      groups: this.groupsService.getGroups(),
+      // Without the genre list the names still come from the groups
+      genres: this.genresService.getGenres().pipe(
+        catchError((error) => {
+          console.error('Error loading genres:', error);
+          return of([]);
+        })
+      ),
+    })
+      .pipe(
+        takeUntilDestroyed(this.destroyRef),
+        finalize(() => {
+          this.loading = false;
+          this.cdr.markForCheck();
+        })
+      )
+      .subscribe({
+        next: ({ page, groups, genres }) => {
+          this.index = new CatalogIndex(page.items, groups, genres);
+          this.cutAt =
+            page.totalCount > page.items.length ? { read: page.items.length, total: page.totalCount } : null;
+          this.applyFilters();
+        },
+        error: (error) => {
+          console.error('Error loading catalog:', error);
+          this.index = null;
+          this.results = [];
+          this.facets = null;
+          this.cutAt = null;
+          this.loadError = AppError.from(error).message;
+        },
+      });
+  }
+
+  applyFilters(): void {
+    if (!this.index) return;
+    this.results = this.index.filter(this.filters);
+    this.facets = this.index.facets(this.filters);
+    this.cdr.markForCheck();
+  }
+
+  toggleGenre(genreId: number): void {
+    this.filters = { ...this.filters, genreIds: this.toggle(this.filters.genreIds, genreId) };
+    this.applyFilters();
+  }
+
+  toggleGroup(groupId: number): void {
+    this.filters = { ...this.filters, groupIds: this.toggle(this.filters.groupIds, groupId) };
+    this.applyFilters();
+  }
+
+  clearFilters(): void {
+    this.filters = { ...EMPTY_CATALOG_FILTERS };
+    this.applyFilters();
+  }
+
+  genreOf(record: IRecord): number | null {
+    return this.index?.genreOf(record) ?? null;
+  }
+
+  genreName(record: IRecord): string {
+    return this.index?.genreName(record) ?? '';
+  }
+
+  private toggle(ids: number[], id: number): number[] {
+    return ids.includes(id) ? ids.filter((selected) => selected !== id) : [...ids, id];
+  }
+}
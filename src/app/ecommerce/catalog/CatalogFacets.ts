@@ -0,0 +1,132 @@
+import { ICatalogFacets, ICatalogFilters, IFacetOption, IGenre, IGroup, IRecord } from '../EcommerceInterface';
+import { ISearchField, matchesQuery, searchItems } from 'src/app/shared/utils/TextSearch';
+
+type Facet = 'search' | 'genre' | 'group' | 'year' | 'price' | 'inStock' | 'discontinued';
+
+// Fields of a record search, shared with RecordsService.searchRecordsPage
+export const RECORD_SEARCH_FIELDS: ISearchField<IRecord>[] = [
+  { value: (record) => record.titleRecord, weight: 3 },
+  { value: (record) => record.groupName, weight: 2 },
+  { value: (record) => record.yearOfPublication, weight: 1 },
+];
+
+export const EMPTY_CATALOG_FILTERS: ICatalogFilters = {
+  search: '',
+  genreIds: [],
+  groupIds: [],
+  yearFrom: null,
+  yearTo: null,
+  priceFrom: null,
+  priceTo: null,
+  inStockOnly: false,
+  hideDiscontinued: false,
+};
+
+// Records only carry their group, the genre comes from the group. The paged
+// endpoint may not join the group either, so its name is added here
+export class CatalogIndex {
+  readonly records: IRecord[];
+  private readonly genreByGroup = new Map<number, number | null>();
+  private readonly genreNames = new Map<number, string>();
+  private readonly groupNames = new Map<number, string>();
+
+  constructor(records: IRecord[], groups: IGroup[], genres: IGenre[]) {
+    genres.forEach((genre) => {
+      if (genre.idMusicGenre) {
+        this.genreNames.set(genre.idMusicGenre, genre.nameMusicGenre);
+      }
+    });
+    groups.forEach((group) => {
+      this.genreByGroup.set(group.idGroup, group.musicGenreId);
+      this.groupNames.set(group.idGroup, group.nameGroup);
+      if (group.musicGenreId && group.nameMusicGenre && !this.genreNames.has(group.musicGenreId)) {
+        this.genreNames.set(group.musicGenreId, group.nameMusicGenre);
+      }
+    });
+    this.records = records.map((record) => ({
+      ...record,
+      groupName: record.groupName || (record.groupId === null ? '' : this.groupNames.get(record.groupId) ?? ''),
+    }));
+  }
+
+  genreOf(record: IRecord): number | null {
+    return record.groupId === null ? null : this.genreByGroup.get(record.groupId) ?? null;
+  }
+
+  genreName(record: IRecord): string {
+    const genreId = this.genreOf(record);
+    return genreId === null ? '' : this.genreNames.get(genreId) ?? '';
+  }
+
+  // Best matches of the search first
+  filter(filters: ICatalogFilters): IRecord[] {
+    const records = this.records.filter((record) => this.matches(record, filters, 'search'));
+    return searchItems(records, filters.search, RECORD_SEARCH_FIELDS);
+  }
+
+  facets(filters: ICatalogFilters): ICatalogFacets {
+    const years = this.records
+      .map((record) => record.yearOfPublication)
+      .filter((year): year is number => year !== null);
+    const prices = this.records.map((record) => record.price);
+
+    return {
+      genres: this.options(
+        this.records.filter((record) => this.matches(record, filters, 'genre')),
+        (record) => this.genreOf(record),
+        this.genreNames,
+        filters.genreIds
+      ),
+      groups: this.options(
+        this.records.filter((record) => this.matches(record, filters, 'group')),
+        (record) => record.groupId,
+        this.groupNames,
+        filters.groupIds
+      ),
+      inStock: this.records.filter((record) => this.matches(record, filters, 'inStock') && record.stock > 0).length,
+      discontinued: this.records.filter((record) => this.matches(record, filters, 'discontinued') && record.discontinued).length,
+      minYear: years.length ? Math.min(...years) : null,
+      maxYear: years.length ? Math.max(...years) : null,
+      minPrice: prices.length ? Math.min(...prices) : null,
+      maxPrice: prices.length ? Math.max(...prices) : null,
+    };
+  }
+
+  // Counting a facet ignores its own filter, so that its other values stay selectable
+  private matches(record: IRecord, filters: ICatalogFilters, ignore?: Facet): boolean {
+    const year = record.yearOfPublication;
+    const checks: Record<Facet, () => boolean> = {
+      search: () => matchesQuery(record, filters.search, RECORD_SEARCH_FIELDS),
+      genre: () => !filters.genreIds.length || filters.genreIds.includes(this.genreOf(record) ?? -1),
+      group: () => !filters.groupIds.length || filters.groupIds.includes(record.groupId ?? -1),
+      year: () =>
+        (filters.yearFrom === null || (year !== null && year >= filters.yearFrom)) &&
+        (filters.yearTo === null || (year !== null && year <= filters.yearTo)),
+      price: () =>
+        (filters.priceFrom === null || record.price >= filters.priceFrom) &&
+        (filters.priceTo === null || record.price <= filters.priceTo),
+      inStock: () => !filters.inStockOnly || record.stock > 0,
+      discontinued: () => !filters.hideDiscontinued || !record.discontinued,
+    };
+    return (Object.keys(checks) as Facet[]).every((facet) => facet === ignore || checks[facet]());
+  }
+
+  // Values without matches are left out unless they are selected
+  private options(
+    records: IRecord[],
+    valueOf: (record: IRecord) => number | null,
+    labels: Map<number, string>,
+    selected: number[]
+  ): IFacetOption[] {
+    const counts = new Map<number, number>(selected.map((id) => [id, 0]));
+    records.forEach((record) => {
+      const id = valueOf(record);
+      if (id !== null) {
+        counts.set(id, (counts.get(id) ?? 0) + 1);
+      }
+    });
+    return [...counts.entries()]
+      .map(([id, count]) => ({ id, label: labels.get(id) ?? `#${id}`, count }))
+      .sort((a, b) => a.label.localeCompare(b.label));
+  }
+}
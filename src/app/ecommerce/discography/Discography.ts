@@ -0,0 +1,32 @@
+import { IAvailabilitySummary, IDiscographyYear, IRecord } from '../EcommerceInterface';
+
+// Oldest releases first, records without a year at the end
+export function discographyByYear(records: IRecord[]): IDiscographyYear[] {
+  const byYear = new Map<number | null, IRecord[]>();
+  records.forEach((record) => {
+    const year = record.yearOfPublication ?? null;
+    byYear.set(year, [...(byYear.get(year) ?? []), record]);
+  });
+
+  return [...byYear.entries()]
+    .map(([year, yearRecords]) => ({
+      year,
+      records: [...yearRecords].sort((a, b) => a.titleRecord.localeCompare(b.titleRecord)),
+    }))
+    .sort((a, b) => {
+      if (a.year === null) return b.year === null ? 0 : 1;
+      if (b.year === null) return -1;
+      return a.year - b.year;
+    });
+}
+
+// Discontinued records are counted apart, whatever stock they have left
+export function availabilitySummary(records: IRecord[]): IAvailabilitySummary {
+  const available = records.filter((record) => !record.discontinued);
+  return {
+    total: records.length,
+    inStock: available.filter((record) => record.stock > 0).length,
+    outOfStock: available.filter((record) => record.stock <= 0).length,
+    discontinued: records.length - available.length,
+  };
+}
@@ -0,0 +1,32 @@
+import { Component, ChangeDetectionStrategy, computed, input, output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { RouterModule } from '@angular/router';
+import { ButtonModule } from 'primeng/button';
+import { IRecord } from '../EcommerceInterface';
+import { discographyByYear } from './Discography';
+import { WishlistButtonComponent } from '../wishlist/WishlistButtonComponent';
+
+// Records of a group on a timeline by year of publication, with a quick add to the cart
+@Component({
+    selector: 'app-discography',
+    templateUrl: './DiscographyComponent.html',
+    styleUrls: ['./DiscographyComponent.css'],
+    changeDetection: ChangeDetectionStrategy.OnPush,
+    imports: [
+        CommonModule,
+        RouterModule,
+        ButtonModule,
+        WishlistButtonComponent
+    ]
+})
+export class DiscographyComponent {
+  readonly records = input.required<IRecord[]>();
+  // Hidden for admins; shown but disabled for visitors and disabled carts
+  readonly showAddToCart = input(false);
+  readonly cartEnabled = input(false);
+  // Records with a cart change waiting for the server
+  readonly pendingRecords = input<ReadonlySet<number>>(new Set());
+  readonly addToCart = output<IRecord>();
+
+  readonly years = computed(() => discographyByYear(this.records()));
+}
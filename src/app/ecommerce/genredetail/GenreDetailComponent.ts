@@ -0,0 +1,161 @@
+import { Component, inject, ChangeDetectionStrategy, ChangeDetectorRef, DestroyRef } from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { CommonModule } from '@angular/common';
+import { ActivatedRoute, RouterModule } from '@angular/router';
+import { TableLazyLoadEvent, TableModule } from 'primeng/table';
+import { Subscription, combineLatest, forkJoin } from 'rxjs';
+import { finalize, map } from 'rxjs/operators';
+import { IGenre, IGroup, IRecord, IRecordQuery } from '../EcommerceInterface';
+import { GenresService } from '../services/GenresService';
+import { GroupsService } from '../services/GroupsService';
+import { RecordsService } from '../services/RecordsService';
+import { AppError } from 'src/app/services/AppError';
+import { LoadErrorComponent } from 'src/app/shared/load-error/LoadErrorComponent';
+import { ListUrlState } from 'src/app/shared/utils/ListUrlState';
+
+// Public page of a genre: its groups and a paged table of their records
+@Component({
+    selector: 'app-genre-detail',
+    templateUrl: './GenreDetailComponent.html',
+    changeDetection: ChangeDetectionStrategy.OnPush,
+    imports: [
+        CommonModule,
+        RouterModule,
+        TableModule,
+        LoadErrorComponent
+    ]
+})
+export class GenreDetailComponent {
+  genreId: number | null = null;
+  genre: IGenre | null = null;
+  groups: IGroup[] = [];
+  loading = false;
+  notFound = false;
+  // Set when the genre could not be loaded, as opposed to a genre without groups
+  loadError: string | null = null;
+
+  // Records of the genre, paged on the server
+  records: IRecord[] = [];
+  totalRecords = 0;
+  recordsLoading = false;
+  recordsError: string | null = null;
+  // Table state mirrored from the query params
+  first = 0;
+  rows = 10;
+  sortField: string | null = null;
+  sortOrder: 1 | -1 = 1;
+
+  private readonly route = inject(ActivatedRoute);
+  private readonly genresService = inject(GenresService);
+  private readonly groupsService = inject(GroupsService);
+  private readonly recordsService = inject(RecordsService);
+  private readonly cdr = inject(ChangeDetectorRef);
+  private readonly destroyRef = inject(DestroyRef);
+  readonly listState = new ListUrlState({ rows: 10 });
+  private query: IRecordQuery = { page: 1, pageSize: this.rows };
+  private recordsSubscription: Subscription | null = null;
+
+  constructor() {
+    const genreId$ = this.route.paramMap.pipe(
+      map((params) => {
+        const id = Number(params.get('id'));
+        return Number.isInteger(id) && id > 0 ? id : null;
+      })
+    );
+
+    genreId$.pipe(takeUntilDestroyed()).subscribe((genreId) => {
+      this.genreId = genreId;
+      this.loadGenre();
+    });
+
+    // The records table follows the query params
+    combineLatest([genreId$, this.listState.changes$])
+      .pipe(takeUntilDestroyed())
+      .subscribe(([genreId, state]) => {
+        this.first = this.listState.firstRow(state);
+        this.rows = state.rows;
+        this.sortField = state.sortField;
+        this.sortOrder = state.sortOrder;
+        if (genreId !== null) {
+          this.query = { ...this.listState.toPageQuery(state), genreId };
+          this.loadRecords();
+        }
+      });
+  }
+
+  // The genre reports its groups; without it, the groups found are counted
+  get totalGroups(): number {
+    return this.genre?.totalGroups ?? this.groups.length;
+  }
+
+  loadGenre(): void {
+    this.genre = null;
+    this.groups = [];
+    this.notFound = this.genreId === null;
+    this.loadError = null;
+    if (this.genreId === null) {
+      this.cdr.markForCheck();
+      return;
+    }
+
+    this.loading = true;
+    this.cdr.markForCheck();
+    forkJoin({
+      genres: this.genresService.getGenres(),
+      groups: this.groupsService.getGroups(),
+    })
+      .pipe(
+        takeUntilDestroyed(this.destroyRef),
+        finalize(() => {
+          this.loading = false;
+          this.cdr.markForCheck();
+        })
+      )
+      .subscribe({
+        next: ({ genres, groups }) => {
+          this.genre = genres.find((genre) => genre.idMusicGenre === this.genreId) ?? null;
+          this.notFound = this.genre === null;
+          this.groups = groups
+            .filter((group) => group.musicGenreId === this.genreId)
+            .sort((a, b) => a.nameGroup.localeCompare(b.nameGroup));
+        },
+        error: (error) => {
+          console.error('Error loading genre:', error);
+          this.loadError = AppError.from(error).message;
+        },
+      });
+  }
+
+  onLazyLoad(event: TableLazyLoadEvent): void {
+    this.listState.lazyLoad(event);
+  }
+
+  loadRecords(): void {
+    this.recordsSubscription?.unsubscribe();
+    this.recordsLoading = true;
+    this.recordsError = null;
+    this.cdr.markForCheck();
+
+    this.recordsSubscription = this.recordsService
+      .getRecordsPage(this.query)
+      .pipe(
+        takeUntilDestroyed(this.destroyRef),
+        finalize(() => {
+          this.recordsLoading = false;
+          this.cdr.markForCheck();
+        })
+      )
+      .subscribe({
+        next: (page) => {
+          this.records = page.items;
+          this.totalRecords = page.totalCount;
+        },
+        error: (error) => {
+          console.error('Error loading genre records:', error);
+          this.records = [];
+          this.totalRecords = 0;
+          this.recordsError = AppError.from(error).message;
+        },
+      });
+  }
+}
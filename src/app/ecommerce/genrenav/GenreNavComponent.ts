@@ -0,0 +1,38 @@
+import { Component, inject, ChangeDetectionStrategy, ChangeDetectorRef } from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { CommonModule } from '@angular/common';
+import { RouterModule } from '@angular/router';
+import { IGenre } from '../EcommerceInterface';
+import { GenresService } from '../services/GenresService';
+
+// Genre links of the storefront header; hidden when the genres cannot be loaded
+@Component({
+    selector: 'app-genre-nav',
+    templateUrl: './GenreNavComponent.html',
+    changeDetection: ChangeDetectionStrategy.OnPush,
+    imports: [
+        CommonModule,
+        RouterModule
+    ]
+})
+export class GenreNavComponent {
+  genres: IGenre[] = [];
+
+  private readonly genresService = inject(GenresService);
+  private readonly cdr = inject(ChangeDetectorRef);
+
+  constructor() {
+    this.genresService
+      .getGenres()
+      .pipe(takeUntilDestroyed())
+      .subscribe({
+        next: (genres) => {
+          this.genres = genres
+            .filter((genre) => !!genre.idMusicGenre)
+            .sort((a, b) => a.nameMusicGenre.localeCompare(b.nameMusicGenre));
+          this.cdr.markForCheck();
+        },
+        error: (error) => console.error('Error loading genres for the navigation:', error),
+      });
+  }
+}
@@ -6,10 +6,15 @@ import { ConfirmationService } from 'primeng/api';
 import { TableModule } from 'primeng/table';
 import { ButtonModule } from 'primeng/button';
 import { ConfirmDialogModule } from 'primeng/confirmdialog';
-import { DialogModule } from 'primeng/dialog';
 import { InputTextModule } from 'primeng/inputtext';
 import { IGenre } from '../EcommerceInterface';
 import { GenresService } from '../services/GenresService';
+import { AppError } from 'src/app/services/AppError';
+import { LoadErrorComponent } from 'src/app/shared/load-error/LoadErrorComponent';
+import { HighlightPipe } from 'src/app/shared/pipes/HighlightPipe';
+import { NotificationService } from 'src/app/shared/services/NotificationService';
+import { applyServerErrors } from 'src/app/shared/utils/ServerValidation';
+import { searchItems } from 'src/app/shared/utils/TextSearch';
 
 @Component({
     selector: 'app-genres',
@@ -21,22 +26,24 @@ import { GenresService } from '../services/GenresService';
         TableModule,
         ButtonModule,
         ConfirmDialogModule,
-        DialogModule,
-        InputTextModule
+        InputTextModule,
+        LoadErrorComponent,
+        HighlightPipe
     ],
     providers: [ConfirmationService]
 })
 export class GenresComponent {
   private readonly genresService = inject(GenresService);
   private readonly confirmationService = inject(ConfirmationService);
+  private readonly notifications = inject(NotificationService);
   private readonly cdr = inject(ChangeDetectorRef);
   private readonly destroyRef = inject(DestroyRef);
 
   @ViewChild('form') form!: NgForm;
-  visibleError = false;
-  errorMessage = '';
   genres: IGenre[] = [];
   filteredGenres: IGenre[] = [];
+  // Set when the list could not be loaded, as opposed to an empty list
+  loadError: string | null = null;
   visibleConfirm = false;
   searchTerm: string = '';
 
@@ -61,17 +68,18 @@ export class GenresComponent {
       takeUntilDestroyed(this.destroyRef)
     ).subscribe({
       next: (data: any) => {
-        this.visibleError = false;
         
         // The API returns the array directly, no need to access .$values
         this.genres = Array.isArray(data) ? data : [];
         this.filteredGenres = [...this.genres]; // Initialize `filteredGenres` as a copy of `genres`
+        this.loadError = null;
         this.cdr.markForCheck();
       },
       error: (err) => {
         console.error('Error:', err);
-        this.visibleError = true;
-        this.controlError(err);
+        this.genres = [];
+        this.filteredGenres = [];
+        this.loadError = AppError.from(err).message;
         this.cdr.markForCheck();
       },
     });
@@ -82,33 +90,23 @@ export class GenresComponent {
         takeUntilDestroyed(this.destroyRef)
       ).subscribe({
         next: (data) => {
-          this.visibleError = false;
           this.form.reset();
           this.getGenres();
           this.cdr.markForCheck();
         },
-        error: (err) => {
-          console.log(err);
-          this.visibleError = true;
-          this.controlError(err);
-          this.cdr.markForCheck();
-        },
+        error: (err) => this.handleSaveError(err),
       });
     } else {
       this.genresService.updateGenre(this.genre).pipe(
         takeUntilDestroyed(this.destroyRef)
       ).subscribe({
         next: (data) => {
-          this.visibleError = false;
           this.cancelEdition();
           this.form.reset();
           this.getGenres();
           this.cdr.markForCheck();
         },
-        error: (err) => {
-          this.visibleError = true;
-          this.controlError(err);
-        },
+        error: (err) => this.handleSaveError(err),
       });
     }
   }
@@ -142,7 +140,6 @@ export class GenresComponent {
       takeUntilDestroyed(this.destroyRef)
     ).subscribe({
       next: (data) => {
-        this.visibleError = false;
         this.form.reset({
           name: '',
         });
@@ -150,29 +147,23 @@ export class GenresComponent {
         this.cdr.markForCheck();
       },
       error: (err) => {
-        this.visibleError = true;
-        this.controlError(err);
+        this.notifications.error(err);
       },
     });
   }
 
   filterGenres() {
-    const term = this.searchTerm.toLowerCase();
-    this.filteredGenres = this.genres.filter((genre) =>
-      genre.nameMusicGenre.toLowerCase().includes(term)
-    );
+    this.filteredGenres = searchItems(this.genres, this.searchTerm, [
+      { value: (genre) => genre.nameMusicGenre, weight: 1 },
+    ]);
     this.cdr.markForCheck();
   }
-  controlError(err: any) {
-    if (err.error && typeof err.error === 'object' && err.error.message) {
-      this.errorMessage = err.error.message;
-    } else if (typeof err.error === 'string') {
-      // If `err.error` is a string, it is assumed to be the error message
-      this.errorMessage = err.error;
-    } else {
-      // Handles the case where no useful error message is received
-      this.errorMessage = 'An unexpected error has occurred';
+  private handleSaveError(err: unknown) {
+    // Validation messages go under the field, anything else to a notification
+    if (!applyServerErrors(this.form, err, { nameMusicGenre: 'name' })) {
+      this.notifications.error(err);
     }
+    this.cdr.markForCheck();
   }
 
 }
@@ -9,9 +9,16 @@ import { ConfirmDialogModule } from 'primeng/confirmdialog';
 import { DialogModule } from 'primeng/dialog';
 import { InputTextModule } from 'primeng/inputtext';
 import { DropdownModule } from 'primeng/dropdown';
-import { IGroup } from '../EcommerceInterface';
+import { IGenre, IGroup } from '../EcommerceInterface';
 import { GroupsService } from '../services/GroupsService';
 import { GenresService } from '../services/GenresService';
+import { AppError } from 'src/app/services/AppError';
+import { LoadErrorComponent } from 'src/app/shared/load-error/LoadErrorComponent';
+import { NotificationService } from 'src/app/shared/services/NotificationService';
+import { HighlightPipe } from 'src/app/shared/pipes/HighlightPipe';
+import { ListUrlState } from 'src/app/shared/utils/ListUrlState';
+import { searchItems } from 'src/app/shared/utils/TextSearch';
+import { applyServerErrors } from 'src/app/shared/utils/ServerValidation';
 
 @Component({
     selector: 'app-groups',
@@ -25,22 +32,29 @@ import { GenresService } from '../services/GenresService';
         ConfirmDialogModule,
         DialogModule,
         InputTextModule,
-        DropdownModule
+        DropdownModule,
+        LoadErrorComponent,
+        HighlightPipe
     ],
     providers: [ConfirmationService]
 })
 export class GroupsComponent {
   @ViewChild('form') form!: NgForm;
   @ViewChild('fileInput') fileInput!: ElementRef;
-  visibleError = false;
-  errorMessage = '';
   groups: IGroup[] = [];
   filteredGroups: IGroup[] = [];
+  // Set when the list could not be loaded, as opposed to an empty list
+  loadError: string | null = null;
   visibleConfirm = false;
   imageGroup = '';
   visiblePhoto = false;
   photo = '';
   searchText: string = '';
+  // Table state mirrored from the query params
+  first = 0;
+  rows = 5;
+  sortField: string | null = null;
+  sortOrder: 1 | -1 = 1;
 
   group: IGroup = {
     idGroup: 0,
@@ -52,14 +66,15 @@ export class GroupsComponent {
     musicGenre: '',
   };
 
-  genres: any[] = [];
+  genres: IGenre[] = [];
   isLoadingGenres = false;
   private readonly groupsService = inject(GroupsService);
   private readonly genresService = inject(GenresService);
   private readonly confirmationService = inject(ConfirmationService);
+  private readonly notifications = inject(NotificationService);
   private readonly cdr = inject(ChangeDetectorRef);
   private readonly destroyRef = inject(DestroyRef);
-
+  readonly listState = new ListUrlState({ rows: 5 });
 
   // Function to compare values in the select
   compareFn(option1: any, option2: any): boolean {
@@ -72,6 +87,18 @@ export class GroupsComponent {
     this.getGroups();
     this.getGenres();
 
+    // Search, page and sort come from the URL, also on back/forward
+    this.listState.changes$.pipe(takeUntilDestroyed()).subscribe((state) => {
+      if (state.search !== this.searchText.trim()) {
+        this.searchText = state.search;
+      }
+      this.first = this.listState.firstRow(state);
+      this.rows = state.rows;
+      this.sortField = state.sortField;
+      this.sortOrder = state.sortOrder;
+      this.filterGroups();
+    });
+
     // afterNextRender runs once after the component is initially rendered
     afterNextRender(() => {
       // Any DOM-dependent initialization can go here
@@ -83,17 +110,16 @@ export class GroupsComponent {
     this.groupsService.getGroups().pipe(
       takeUntilDestroyed(this.destroyRef)
     ).subscribe({
-      next: (data: any) => {
-
-        // Directly assign the response array (without using .$values)
-        this.groups = Array.isArray(data) ? data : [];
-        this.filteredGroups = [...this.groups];
-        this.cdr.markForCheck();
+      next: (groups) => {
+        this.groups = groups;
+        this.loadError = null;
+        this.filterGroups();
       },
       error: (err) => {
         console.error('Error fetching groups:', err);
-        this.visibleError = true;
-        this.controlError(err);
+        this.groups = [];
+        this.filteredGroups = [];
+        this.loadError = AppError.from(err).message;
         this.cdr.markForCheck();
       },
     });
@@ -105,34 +131,13 @@ export class GroupsComponent {
       this.genresService.getGenres().pipe(
         takeUntilDestroyed(this.destroyRef)
       ).subscribe({
-        next: (data: any) => {
-          try {
-            // Extract the array of genres, handling different response formats
-            let genresArray = [];
-            
-            if (Array.isArray(data)) {
-              genresArray = data;
-            } else if (data && typeof data === 'object' && data.$values) {
-              genresArray = data.$values;
-            } else if (data && typeof data === 'object') {
-              // If it is an object, convert it to an array
-              genresArray = Object.values(data);
-            }
-            
-            this.genres = Array.isArray(genresArray) ? genresArray : [];
-            resolve();
-          } catch (error) {
-            console.error('Error processing genres:', error);
-            this.visibleError = true;
-            this.errorMessage = 'Error loading music genres';
-            reject(error);
-          }
+        next: (genres) => {
+          this.genres = genres;
+          resolve();
         },
         error: (err) => {
           console.error('Error getting genres:', err);
-          this.visibleError = true;
-          this.controlError(err);
-          this.cdr.markForCheck();
+          this.notifications.error(err);
           reject(err);
         },
         complete: () => {
@@ -143,14 +148,15 @@ export class GroupsComponent {
   }
 
   filterGroups() {
-    this.filteredGroups = this.groups.filter((group) =>
-      group.nameGroup.toLowerCase().includes(this.searchText.toLowerCase())
-    );
+    this.filteredGroups = searchItems(this.groups, this.searchText, [
+      { value: (group) => group.nameGroup, weight: 1 },
+    ]);
     this.cdr.markForCheck();
   }
 
   onSearchChange() {
     this.filterGroups();
+    this.listState.search(this.searchText);
   }
 
   save() {
@@ -159,23 +165,13 @@ export class GroupsComponent {
         takeUntilDestroyed(this.destroyRef)
       ).subscribe({
         next: (data) => {
-          this.visibleError = false;
           this.form.reset();
           this.getGroups();
           this.cdr.markForCheck();
         },
         error: (err) => {
-          console.error('[GroupsComponent] Error creating group:', {
-            error: err,
-            status: err.status,
-            statusText: err.statusText,
-            errorDetails: err.error,
-            headers: err.headers,
-            url: err.url
-          });
-          this.visibleError = true;
-          this.controlError(err);
-          this.cdr.markForCheck();
+          console.error('[GroupsComponent] Error creating group:', err);
+          this.handleSaveError(err);
         },
       });
     } else {
@@ -183,27 +179,17 @@ export class GroupsComponent {
         takeUntilDestroyed(this.destroyRef)
       ).subscribe({
         next: (data) => {
-          this.visibleError = false;
           this.cancelEdition();
           this.form.reset();
           this.getGroups();
           this.cdr.markForCheck();
         },
         error: (err) => {
-          console.error('[GroupsComponent] Error updating group:', {
-            error: err,
-            status: err.status,
-            statusText: err.statusText,
-            errorDetails: err.error,
-            headers: err.headers,
-            url: err.url,
+          console.error('[GroupsComponent] Error updating group:', err, {
             groupData: this.group,
             hasPhoto: !!this.group.photo,
-            photoName: this.group.photo?.name || this.group.photoName
           });
-          this.visibleError = true;
-          this.controlError(err);
-          this.cdr.markForCheck();
+          this.handleSaveError(err);
         },
       });
     }
@@ -216,8 +202,6 @@ export class GroupsComponent {
         await this.getGenres();
       } catch (error) {
         console.error('Error loading genres:', error);
-        this.visibleError = true;
-        this.errorMessage = 'The music genres could not be loaded';
         return;
       }
     }
@@ -288,7 +272,6 @@ export class GroupsComponent {
       takeUntilDestroyed(this.destroyRef)
     ).subscribe({
       next: (data) => {
-        this.visibleError = false;
         this.form.reset({
           nameMusicGenre: '',
         });
@@ -296,78 +279,17 @@ export class GroupsComponent {
         this.cdr.markForCheck();
       },
       error: (err) => {
-        this.visibleError = true;
-        this.controlError(err);
+        this.notifications.error(err);
       },
     });
   }
 
-  controlError(err: any) {
-    console.log('[GroupsComponent] Processing error in controlError:', {
-      status: err.status,
-      error: err.error,
-      message: err.message
-    });
-
-    // If it is an authentication error (401)
-    if (err.status === 401) {
-      this.errorMessage = "Your session has expired or you don't have permission. Please log in again.";
-      return;
-    }
-
-    // If it is a validation error (400) with details
-    if (err.status === 400) {
-      if (err.error && typeof err.error === 'object') {
-        // If there are server validation errors
-        if (err.error.errors) {
-          const validationErrors: string[] = [];
-          Object.keys(err.error.errors).forEach((key: string) => {
-            if (Array.isArray(err.error.errors[key])) {
-              validationErrors.push(...err.error.errors[key].map((e: any) => e.toString()));
-            } else {
-              validationErrors.push(err.error.errors[key].toString());
-            }
-          });
-          this.errorMessage = `Validation errors: ${validationErrors.join(' ')}`;
-          return;
-        }
-        
-        if (err.error.message) {
-          this.errorMessage = err.error.message;
-          return;
-        }
-        
-        if (err.error.title) {
-          this.errorMessage = err.error.title;
-          return;
-        }
-      }
-      
-      if (typeof err.error === 'string') {
-        this.errorMessage = err.error;
-        return;
-      }
-    }
-
-    // If it is a network error
-    if (err.status === 0) {
-      this.errorMessage = 'Could not connect to the server. Please check your internet connection.';
-      return;
-    }
-
-    // If it is a 500 server error
-    if (err.status >= 500) {
-      this.errorMessage = 'Internal server error. Please try again later.';
-      return;
+  private handleSaveError(err: unknown) {
+    // Validation messages go under the field, anything else to a notification
+    if (!applyServerErrors(this.form, err, { photo: 'nameImage' })) {
+      this.notifications.error(err);
     }
-
-    if (err.message) {
-      this.errorMessage = err.message;
-      return;
-    }
-
-    // Default message
-    this.errorMessage = 'An unexpected error has occurred. Please try again.';
+    this.cdr.markForCheck();
   }
 
   async onChange(event: any) {
@@ -11,6 +11,17 @@ import { DialogModule } from 'primeng/dialog';
 import { IGroup } from '../EcommerceInterface';
 import { GroupsService } from '../services/GroupsService';
 import { GenresService } from '../services/GenresService';
+import { AppError } from 'src/app/services/AppError';
+import { LoadErrorComponent } from 'src/app/shared/load-error/LoadErrorComponent';
+import { NotificationService } from 'src/app/shared/services/NotificationService';
+import { HighlightPipe } from 'src/app/shared/pipes/HighlightPipe';
+import { ListUrlState } from 'src/app/shared/utils/ListUrlState';
+import { ISearchField, searchItems } from 'src/app/shared/utils/TextSearch';
+
+const GROUP_SEARCH_FIELDS: ISearchField<IGroup>[] = [
+  { value: (group) => group.nameGroup, weight: 2 },
+  { value: (group) => group.nameMusicGenre, weight: 1 },
+];
 
 @Component({
     selector: 'app-listgroups',
@@ -21,7 +32,9 @@ import { GenresService } from '../services/GenresService';
         TableModule,
         ButtonModule,
         ConfirmDialogModule,
-        DialogModule
+        DialogModule,
+        LoadErrorComponent,
+        HighlightPipe
     ],
     templateUrl: './ListgroupsComponent.html',
     providers: [ConfirmationService],
@@ -30,15 +43,21 @@ import { GenresService } from '../services/GenresService';
 export class ListgroupsComponent {
   @ViewChild('form') form!: NgForm;
   @ViewChild('fileInput') fileInput!: ElementRef;
-  visibleError = false;
-  errorMessage = '';
   groups: IGroup[] = [];
   filteredGroups: IGroup[] = [];
+  // Set when the list could not be loaded, as opposed to an empty list
+  loadError: string | null = null;
   visibleConfirm = false;
   imageGroup = '';
   visiblePhoto = false;
   photo = '';
   searchText: string = '';
+  genreId: number | null = null;
+  // Table state mirrored from the query params
+  first = 0;
+  rows = 5;
+  sortField: string | null = null;
+  sortOrder: 1 | -1 = 1;
 
   group: IGroup = {
     idGroup: 0,
@@ -56,15 +75,33 @@ export class ListgroupsComponent {
   private readonly groupsService = inject(GroupsService);
   private readonly genresService = inject(GenresService);
   private readonly confirmationService = inject(ConfirmationService);
+  private readonly notifications = inject(NotificationService);
   private readonly router = inject(Router);
   private readonly cdr = inject(ChangeDetectorRef);
   private readonly destroyRef = inject(DestroyRef);
+  readonly listState = new ListUrlState({ rows: 5 });
 
   constructor() {
     // Initial data loading
     this.getGroups();
     this.getGenres();
 
+    // Search, genre, page and sort come from the URL, also on back/forward
+    this.listState.params$.pipe(takeUntilDestroyed()).subscribe((params) => {
+      const state = this.listState.stateOf(params);
+      if (state.search !== this.searchText.trim()) {
+        this.searchText = state.search;
+      }
+      const genreId = Number(params.get('genre'));
+      this.genreId = Number.isInteger(genreId) && genreId > 0 ? genreId : null;
+      this.first = this.listState.firstRow(state);
+      this.rows = state.rows;
+      this.sortField = state.sortField;
+      this.sortOrder = state.sortOrder;
+      this.filterGroups();
+      this.cdr.markForCheck();
+    });
+
     // afterNextRender runs once after the component is initially rendered
     afterNextRender(() => {
       // Any DOM-dependent initialization can go here
@@ -75,36 +112,18 @@ export class ListgroupsComponent {
     this.groupsService.getGroups().pipe(
       takeUntilDestroyed(this.destroyRef)
     ).subscribe({
-      next: (data: any) => {
-        this.visibleError = false;
-
-        // Handle different possible response formats
-        if (Array.isArray(data)) {
-          this.groups = data;
-        } else if (data && typeof data === 'object') {
-          // Check for $values property safely
-          if (data.hasOwnProperty('$values')) {
-            this.groups = Array.isArray(data.$values) ? data.$values : [];
-          } else if (data.hasOwnProperty('data')) {
-            this.groups = Array.isArray(data.data) ? data.data : [];
-          } else {
-            // If it's an object but not in the expected format, try to convert it to an array
-            this.groups = Object.values(data);
-          }
-        } else {
-          this.groups = [];
-          console.warn('Unexpected data format:', data);
-        }
-
+      // The service resolves the list ($values, references) and validates it
+      next: (groups) => {
+        this.groups = groups;
+        this.loadError = null;
         this.filterGroups();
         this.cdr.markForCheck();
       },
       error: (err: any) => {
         console.error('Error loading groups:', err);
-        this.visibleError = true;
-        this.controlError(err);
         this.groups = [];
         this.filteredGroups = [];
+        this.loadError = AppError.from(err).message;
         this.cdr.markForCheck();
       },
     });
@@ -119,38 +138,17 @@ export class ListgroupsComponent {
         this.cdr.markForCheck();
       },
       error: (err) => {
-        this.visibleError = true;
-        this.controlError(err);
-        this.cdr.markForCheck();
+        this.notifications.error(err);
       },
     });
   }
 
-  controlError(err: any) {
-    if (err.error && typeof err.error === 'object' && err.error.message) {
-      this.errorMessage = err.error.message;
-    } else if (typeof err.error === 'string') {
-      this.errorMessage = err.error;
-    } else {
-      this.errorMessage = 'An unexpected error has occurred';
-    }
-  }
-
   filterGroups() {
-    
-    if (!Array.isArray(this.groups)) {
-      console.warn('Groups is not an array:', this.groups);
-      this.groups = [];
-      this.filteredGroups = [];
-      return;
-    }
-
     try {
-      const searchText = this.searchText ? this.searchText.toLowerCase() : '';
-      this.filteredGroups = this.groups.filter((group) => {
-        const groupName = group.nameGroup ? group.nameGroup.toLowerCase() : '';
-        return groupName.includes(searchText);
-      });
+      const groups = this.groups.filter(
+        (group) => this.genreId === null || group.musicGenreId === this.genreId
+      );
+      this.filteredGroups = searchItems(groups, this.searchText, GROUP_SEARCH_FIELDS);
       
     } catch (error) {
       console.error('Error filtering groups:', error);
@@ -160,6 +158,11 @@ export class ListgroupsComponent {
 
   onSearchChange() {
     this.filterGroups();
+    this.listState.search(this.searchText);
+  }
+
+  onGenreChange(genreId: number | null) {
+    this.listState.update({ page: 1 }, { params: { genre: genreId } });
   }
 
   showImage(group: IGroup) {
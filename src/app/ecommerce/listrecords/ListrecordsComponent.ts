@@ -5,27 +5,35 @@ import { FormsModule } from '@angular/forms';
 import { RouterModule, ActivatedRoute, Router } from "@angular/router";
 
 // PrimeNG Modules
-import { TableModule } from 'primeng/table';
+import { TableLazyLoadEvent, TableModule } from 'primeng/table';
 import { ButtonModule } from 'primeng/button';
 import { ConfirmDialogModule } from 'primeng/confirmdialog';
 import { DialogModule } from 'primeng/dialog';
 import { ConfirmationService } from "primeng/api";
 
 // RxJS
-import { of, throwError } from "rxjs";
-import { finalize, switchMap, map, catchError, tap } from "rxjs/operators";
+import { Subscription, combineLatest, forkJoin } from "rxjs";
+import { finalize, switchMap, map, take } from "rxjs/operators";
 
 // Services
-import { RecordsService } from "../services/RecordsService";
+import { RecordsService, SEARCH_MAX_RECORDS } from "../services/RecordsService";
 import { GroupsService } from "../services/GroupsService";
 import { CartService } from "../services/CartService";
 import { CartDetailService } from "../services/CartDetailService";
 import { UserService } from "src/app/services/UserService";
-import { StockService } from "../services/StockService";
+import { CartStore } from "../cart/CartStore";
 import { AuthGuard } from "src/app/guards/AuthGuardService";
+import { AppError } from "src/app/services/AppError";
+import { LoadErrorComponent } from "src/app/shared/load-error/LoadErrorComponent";
+import { HighlightPipe } from "src/app/shared/pipes/HighlightPipe";
+import { NotificationService } from "src/app/shared/services/NotificationService";
+import { ListUrlState } from "src/app/shared/utils/ListUrlState";
+import { DiscographyComponent } from "../discography/DiscographyComponent";
+import { WishlistButtonComponent } from "../wishlist/WishlistButtonComponent";
+import { availabilitySummary } from "../discography/Discography";
 
 // Interfaces
-import { IRecord } from "../EcommerceInterface";
+import { IAvailabilitySummary, ICartLine, IGroup, IRecord, IRecordQuery } from "../EcommerceInterface";
 
 @Component({
     selector: "app-listrecords",
@@ -37,25 +45,44 @@ import { IRecord } from "../EcommerceInterface";
         TableModule,
         ButtonModule,
         ConfirmDialogModule,
-        DialogModule
+        DialogModule,
+        LoadErrorComponent,
+        HighlightPipe,
+        DiscographyComponent,
+        WishlistButtonComponent
     ],
     providers: [ConfirmationService],
     changeDetection: ChangeDetectionStrategy.OnPush
 })
 export class ListrecordsComponent {
 
+  // Current page of the group's records, paged and sorted on the server, a search in the browser
   records: IRecord[] = [];
-  filteredRecords: IRecord[] = [];
+  totalRecords = 0;
+  // Table state mirrored from the query params
+  first = 0;
+  rows = 5;
+  sortField: string | null = null;
+  sortOrder: 1 | -1 = 1;
+  // Set when the list could not be loaded, as opposed to an empty list
+  loadError: string | null = null;
+  // Set when the search only covered the first records read
+  searchCut = false;
+  readonly searchLimit = SEARCH_MAX_RECORDS;
   searchText: string = "";
   cart: IRecord[] = [];
   groupId: string | null = null;
-  groupName: string = "";
-  errorMessage: string = "";
-  visibleError: boolean = false;
+  group: IGroup | null = null;
+  // Every record of the group, for the discography and its availability
+  discography: IRecord[] = [];
+  availability: IAvailabilitySummary = availabilitySummary([]);
+  groupLoading = false;
+  groupError: string | null = null;
   visiblePhoto: boolean = false;
   photo: string = "";
   cartItemsCount: number = 0;
-  isAddingToCart = false;
+  // Records with a cart change waiting for the server
+  pendingRecords: ReadonlySet<number> = new Set();
   loading: boolean = false;
   cartEnabled: boolean = false;
 
@@ -78,33 +105,56 @@ export class ListrecordsComponent {
   userEmail: string | null = null;
 
   private readonly recordsService = inject(RecordsService);
+  private readonly notifications = inject(NotificationService);
   private readonly groupsService = inject(GroupsService);
   private readonly route = inject(ActivatedRoute);
   private readonly confirmationService = inject(ConfirmationService);
   private readonly cartService = inject(CartService);
   private readonly cartDetailService = inject(CartDetailService);
   private readonly userService = inject(UserService);
-  private readonly stockService = inject(StockService);
+  private readonly cartStore = inject(CartStore);
   private readonly authGuard = inject(AuthGuard);
   private readonly router = inject(Router);
   private readonly cdr = inject(ChangeDetectorRef);
 
+  readonly listState = new ListUrlState({ rows: 5 });
+  private query: IRecordQuery = { page: 1, pageSize: this.rows };
+  // A new query cancels the page still loading, so that it cannot overwrite the newer one
+  private loadSubscription: Subscription | null = null;
+
   constructor() {
-    // Subscribe to route parameters immediately to load data on initial navigation
-    this.route.paramMap.pipe(takeUntilDestroyed(this.destroyRef)).subscribe((params) => {
-      const idGroup = params.get("idGroup");
-      if (idGroup) {
-        this.groupId = idGroup;
-        this.loadRecords(idGroup);
-      } else {
-        this.errorMessage = "No group ID provided";
-        this.visibleError = true;
-      }
-    });
+    // The group comes from the route and the search, page and sort from the
+    // query params; the table and the search box only update the URL
+    combineLatest([this.route.paramMap, this.listState.changes$])
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe(([params, state]) => {
+        const idGroup = params.get("idGroup");
+        if (!idGroup) {
+          this.notifications.warn("No group ID provided");
+          return;
+        }
+        if (idGroup !== this.groupId) {
+          this.groupId = idGroup;
+          this.loadGroup();
+        }
+        if (state.search !== this.searchText.trim()) {
+          this.searchText = state.search;
+        }
+        this.first = this.listState.firstRow(state);
+        this.rows = state.rows;
+        this.sortField = state.sortField;
+        this.sortOrder = state.sortOrder;
+        this.query = {
+          ...this.listState.toPageQuery(state),
+          search: state.search || undefined,
+          groupId: idGroup,
+        };
+        this.loadRecords();
+      });
 
-    // Only configure subscriptions if the user is authenticated
+    // Visitors also have a cart (kept in the browser), so the subscriptions are always needed
+    this.setupSubscriptions();
     if (this.authGuard.isLoggedIn()) {
-      this.setupSubscriptions();
       this.userEmail = this.authGuard.getUser();
       this.checkCartStatus();
     }
@@ -125,6 +175,7 @@ export class ListrecordsComponent {
     this.cartService.getCartStatus(this.userEmail).subscribe({
       next: (status) => {
         this.cartEnabled = status.enabled;
+        this.cdr.markForCheck();
       },
       error: (error) => {
         console.error("Error checking cart status:", error);
@@ -138,52 +189,31 @@ export class ListrecordsComponent {
     this.cartService.cart$
       .pipe(takeUntilDestroyed(this.destroyRef))
       .subscribe((cartItems) => {
-        // Update cart status for all records
-        [this.records, this.filteredRecords].forEach((recordArray) => {
-          recordArray.forEach((record) => {
-            const cartItem = cartItems.find(
-              (item: IRecord) => item.idRecord === record.idRecord
-            );
-            if (cartItem) {
-              record.amount = cartItem.amount;
-            } else {
-              record.amount = 0;
-            }
-            // Ensure stock is up to date from the stock service
-          });
-
-          // Trigger change detection by creating new array references
-          if (recordArray.length > 0) {
-            if (recordArray === this.records) {
-              this.records = [...this.records];
-            } else {
-              this.filteredRecords = [...this.filteredRecords];
-            }
-          }
-        });
+        // Update cart status for the records of the page, with new
+        // references to trigger change detection
+        this.records = this.withCartAmounts(this.records, cartItems);
+        this.setDiscography(this.withCartAmounts(this.discography, cartItems));
+        this.cdr.markForCheck();
       });
 
     // Subscribe to stock updates
-    this.stockService.stockUpdate$
+    this.cartStore.stockUpdate$
       .pipe(takeUntilDestroyed(this.destroyRef))
-      .subscribe((update) => {
-        if (!update) return;
-
-        const { recordId, newStock } = update;
-
-        // Update records array
-        this.records = this.records.map((record) =>
-          record.idRecord === recordId
-            ? { ...record, stock: newStock }
-            : record
-        );
-
-        // Update filtered records
-        this.filteredRecords = this.filteredRecords.map((record) =>
-          record.idRecord === recordId
-            ? { ...record, stock: newStock }
-            : record
-        );
+      .subscribe(({ recordId, newStock }) => {
+        this.patchRecord(recordId, (record) => ({ ...record, stock: newStock }));
+        this.cdr.markForCheck();
+      });
+
+    // A cart change in another tab also changed the stock of these records
+    this.cartService.externalCartChange$
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe(() => this.refreshStock());
+
+    this.cartService.pendingRecords$
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe((pendingRecords) => {
+        this.pendingRecords = pendingRecords;
+        this.cdr.markForCheck();
       });
 
     // Subscribe to cart item count
@@ -201,6 +231,19 @@ export class ListrecordsComponent {
       });
   }
 
+  // Reading the group's records pushes their stock to the cart store; a
+  // search page may come from records read earlier, so it is not used here
+  private refreshStock(): void {
+    if (!this.groupId) return;
+    this.recordsService
+      .getRecordsByGroup(this.groupId)
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
+        // The stock shown stays as it was until the next refresh
+        error: (error) => console.error("Error refreshing stock:", error),
+      });
+  }
+
   confirm(): void {
     this.confirmationService.confirm({
       message: "Are you sure you want to continue?",
@@ -209,123 +252,127 @@ export class ListrecordsComponent {
   }
 
   isLoggedIn(): boolean {
-    return !!sessionStorage.getItem("user");
+    return this.authGuard.isLoggedIn();
   }
 
-  loadRecords(idGroup: string): void {
+  // Only a disabled account cart cannot be used
+  canUseCart(): boolean {
+    return !this.isLoggedIn() || this.cartEnabled;
+  }
+
+  // The stock shown is what is left after the account carts; a visitor's cart
+  // does not reserve it, so its lines are capped by the stock instead
+  canAdd(record: IRecord): boolean {
+    if (!this.canUseCart() || record.discontinued || this.pendingRecords.has(record.idRecord)) return false;
+    return this.isLoggedIn() ? record.stock > 0 : (record.amount ?? 0) < record.stock;
+  }
+
+  canRemove(record: IRecord): boolean {
+    return this.canUseCart() && !!record.amount && !this.pendingRecords.has(record.idRecord);
+  }
+
+  onLazyLoad(event: TableLazyLoadEvent): void {
+    this.listState.lazyLoad(event);
+  }
+
+  // Loads the current page of the group's records
+  loadRecords(): void {
+    this.loadSubscription?.unsubscribe();
     this.loading = true;
-    this.errorMessage = "";
-    this.visibleError = false;
+    this.loadError = null;
+    this.cdr.markForCheck();
 
     // First we synchronize the cart with the backend
     if (this.userEmail) {
       this.cartService.syncCartWithBackend(this.userEmail);
     }
 
-    // Clear any existing stock data to ensure fresh state
-    this.records = [];
-    this.filteredRecords = [];
-
-    this.recordsService
-      .getRecordsByGroup(idGroup)
+    // The service pushes the stock of the page to the stock service
+    this.loadSubscription = this.recordsService
+      .searchRecordsPage(this.query)
       .pipe(
-        tap((records: IRecord[]) => {
-          // Initialize stock values in the stock service
-          if (records && records.length > 0) {
-            records.forEach(record => {
-              if (record.idRecord && typeof record.stock === 'number') {
-                this.stockService.updateStock(record.idRecord, record.stock);
-              }
-            });
-          }
-        }),
-        switchMap((records: IRecord[]) => {
-          if (!records || records.length === 0) {
-            this.errorMessage = "No records found for this group";
-            this.visibleError = true;
-            return of([]);
-          }
-
-          this.records = records;
-        this.cdr.markForCheck();
-        // Get cart items to sync cart status
-        return this.cartService.getCartItems().pipe(
-            map((cartItems: IRecord[]) => {
-              // Update cart status for each record
-              this.records.forEach((record) => {
-                const cartItem = cartItems.find(
-                  (item) => item.idRecord === record.idRecord
-                );
-                if (cartItem) {
-                  record.inCart = true;
-                  record.amount = cartItem.amount;
-                } else {
-                  record.inCart = false;
-                  record.amount = 0;
-                }
-              });
-              return this.records;
-            })
-          );
-        }),
+        switchMap((page) =>
+          // Get cart items once to sync cart status
+          this.cartService.getCartItems().pipe(
+            take(1),
+            map((cartItems: ICartLine[]) => ({ ...page, items: this.withCartAmounts(page.items, cartItems) }))
+          )
+        ),
         takeUntilDestroyed(this.destroyRef),
         finalize(() => {
           this.loading = false;
+          this.cdr.markForCheck();
         })
       )
       .subscribe({
-        next: (records: IRecord[]) => {
-          this.getGroupName(idGroup);
-          this.filterRecords();
-          this.cdr.markForCheck();
+        next: (page) => {
+          this.records = page.items;
+          this.totalRecords = page.totalCount;
+          this.searchCut = page.cut;
         },
         error: (error) => {
           console.error("Error loading records:", error);
-          this.errorMessage = "Error loading records";
-          this.visibleError = true;
+          this.records = [];
+          this.totalRecords = 0;
+          this.searchCut = false;
+          this.loadError = AppError.from(error).message;
         },
       });
   }
 
-  getGroupName(idGroup: string): void {
-    this.groupsService
-      .getGroupName(idGroup)
-      .pipe(takeUntilDestroyed(this.destroyRef))
-      .subscribe({
-        next: (nameGroup: string) => {
-          this.groupName = nameGroup;
+  // Loads the group header and its whole discography
+  loadGroup(): void {
+    if (!this.groupId) return;
+    this.groupLoading = true;
+    this.groupError = null;
+    this.cdr.markForCheck();
+
+    forkJoin({
+      group: this.groupsService.getGroup(this.groupId),
+      records: this.recordsService.getRecordsByGroup(this.groupId),
+      cartItems: this.cartService.getCartItems().pipe(take(1)),
+    })
+      .pipe(
+        takeUntilDestroyed(this.destroyRef),
+        finalize(() => {
+          this.groupLoading = false;
           this.cdr.markForCheck();
+        })
+      )
+      .subscribe({
+        next: ({ group, records, cartItems }) => {
+          this.group = group;
+          this.setDiscography(this.withCartAmounts(records, cartItems));
         },
         error: (error) => {
-          console.error("Error loading group name:", error);
-          this.errorMessage = "Error loading group name";
-          this.visibleError = true;
+          console.error("Error loading group:", error);
+          this.group = null;
+          this.setDiscography([]);
+          this.groupError = AppError.from(error).message;
         },
       });
   }
 
-  filterRecords(): void {
-    if (!this.searchText) {
-      this.filteredRecords = [...this.records];
-    } else {
-      this.filteredRecords = this.records.filter((record) => {
-        return (
-          record.groupName
-            .toLowerCase()
-            .includes(this.searchText.toLowerCase()) ||
-          record.titleRecord
-            .toLowerCase()
-            .includes(this.searchText.toLowerCase()) ||
-          (record.yearOfPublication
-            ? record.yearOfPublication.toString().includes(this.searchText)
-            : false)
-        );
-      });
-    }
+  private setDiscography(records: IRecord[]): void {
+    this.discography = records;
+    this.availability = availabilitySummary(records);
+  }
+
+  // Applies a change of a record to the table page and to the discography
+  private patchRecord(idRecord: number, change: (record: IRecord) => IRecord): void {
+    this.records = this.records.map((r) => (r.idRecord === idRecord ? change(r) : r));
+    this.setDiscography(this.discography.map((r) => (r.idRecord === idRecord ? change(r) : r)));
+  }
+
+  private withCartAmounts(records: IRecord[], cartItems: ICartLine[]): IRecord[] {
+    return records.map((record) => {
+      const cartItem = cartItems.find((item) => item.recordId === record.idRecord);
+      return { ...record, inCart: !!cartItem, amount: cartItem ? cartItem.amount : 0 };
+    });
   }
 
   onSearchChange(): void {
-    this.filterRecords();
+    this.listState.search(this.searchText);
   }
 
   showImage(record: IRecord): void {
@@ -338,164 +385,25 @@ export class ListrecordsComponent {
     }
   }
 
+  // The cart service updates the cart and the stock at once, rolls them back
+  // with a message if the server rejects the change, and then syncs the cart
   addToCart(record: IRecord): void {
-    if (this.isAddingToCart || !record.stock || record.stock <= 0) {
-      return;
-    }
-
-    this.isAddingToCart = true;
-    this.errorMessage = "";
-    this.visibleError = false;
-
-    // Update stock locally first for immediate response
-    const updatedRecords = this.records.map(r =>
-      r.idRecord === record.idRecord
-        ? { ...r, stock: r.stock - 1 }
-        : r
-    );
-
-    const updatedFilteredRecords = this.filteredRecords.map(r =>
-      r.idRecord === record.idRecord
-        ? { ...r, stock: r.stock - 1 }
-        : r
-    );
-
-    this.records = updatedRecords;
-    this.filteredRecords = updatedFilteredRecords;
-
+    if (!this.canAdd(record)) return;
     this.cartService
       .addToCart(record)
-      .pipe(
-        finalize(() => (this.isAddingToCart = false)),
-        catchError(error => {
-          // Revert changes if there is an error
-          const revertedRecords = this.records.map(r =>
-            r.idRecord === record.idRecord
-              ? { ...r, stock: r.stock + 1 }
-              : r
-          );
-
-          this.records = revertedRecords;
-          this.filteredRecords = revertedRecords;
-
-          this.errorMessage = error.message || "Error adding to cart";
-          this.visibleError = true;
-          console.error("Error adding to cart:", error);
-          return throwError(() => error);
-        })
-      )
+      .pipe(takeUntilDestroyed(this.destroyRef))
       .subscribe({
-        next: (updatedRecord) => {
-          // The stock has already been updated locally
-          // If the server returns a different stock, we update it
-          if (updatedRecord && updatedRecord.stock !== undefined) {
-            this.records = this.records.map(r =>
-              r.idRecord === record.idRecord
-                ? { ...r, stock: updatedRecord.stock }
-                : r
-            );
-
-            this.filteredRecords = this.filteredRecords.map(r =>
-              r.idRecord === record.idRecord
-                ? { ...r, stock: updatedRecord.stock }
-                : r
-            );
-          }
-
-          // Synchronize the cart with the backend to ensure navbar is updated correctly
-          if (this.userEmail) {
-            this.cartService.syncCartWithBackend(this.userEmail);
-          }
-        }
+        error: (error) => console.error("Error adding to cart:", error),
       });
   }
 
   removeRecord(record: IRecord): void {
-    if (!record.amount || this.isAddingToCart) return;
-    this.isAddingToCart = true;
-
-    // Save the previous state so you can revert if necessary
-    const prevAmount = record.amount;
-
-    // Update locally first for immediate response
-    const updatedRecords = this.records.map(r =>
-      r.idRecord === record.idRecord
-        ? {
-            ...r,
-            amount: Math.max(0, prevAmount - 1),
-            stock: (r.stock || 0) + 1 // Increase stock locally
-          }
-        : r
-    );
-
-    this.records = updatedRecords;
-    this.filteredRecords = this.filteredRecords.map(r =>
-      r.idRecord === record.idRecord
-        ? {
-            ...r,
-            amount: Math.max(0, prevAmount - 1),
-            stock: (r.stock || 0) + 1 // Increase stock locally
-          }
-        : r
-    );
-
+    if (!this.canRemove(record)) return;
     this.cartService
       .removeFromCart(record)
-      .pipe(
-        finalize(() => {
-          this.isAddingToCart = false;
-        }),
-        catchError((error) => {
-          // Revert local changes if there is an error
-          this.records = this.records.map(r =>
-            r.idRecord === record.idRecord
-              ? {
-                  ...r,
-                  amount: prevAmount,
-                  stock: (r.stock || 0) - 1 // Reverse stock change
-                }
-              : r
-          );
-
-          this.filteredRecords = this.filteredRecords.map(r =>
-            r.idRecord === record.idRecord
-              ? {
-                  ...r,
-                  amount: prevAmount,
-                  stock: (r.stock || 0) - 1 // Reverse stock change
-                }
-              : r
-          );
-
-          this.errorMessage = error.message || "Error removing from cart";
-          this.visibleError = true;
-          console.error("Error removing from cart:", error);
-          return throwError(() => error);
-        })
-      )
+      .pipe(takeUntilDestroyed(this.destroyRef))
       .subscribe({
-        next: (updatedRecord) => {
-          // The stock has already been updated locally
-          // If the server returns a different stock, we update it
-          if (updatedRecord && updatedRecord.stock !== undefined) {
-            this.records = this.records.map(r =>
-              r.idRecord === record.idRecord
-                ? { ...r, stock: updatedRecord.stock }
-                : r
-            );
-
-            this.filteredRecords = this.filteredRecords.map(r =>
-              r.idRecord === record.idRecord
-                ? { ...r, stock: updatedRecord.stock }
-                : r
-            );
-          }
-
-          // Synchronize the cart with the backend
-          if (this.userEmail) {
-            this.cartService.syncCartWithBackend(this.userEmail);
-          }
-        }
+        error: (error) => console.error("Error removing from cart:", error),
       });
   }
 
@@ -2,11 +2,15 @@ import { Component, inject, afterNextRender, ChangeDetectionStrategy, ChangeDete
 import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
 import { CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms';
+import { RouterModule } from '@angular/router';
 import { OrderService } from '../services/OrderService';
 import { UserService } from 'src/app/services/UserService';
 import { Subject, takeUntil } from 'rxjs';
 import { IOrder } from '../EcommerceInterface';
 import { TableModule } from 'primeng/table';
+import { AppError } from 'src/app/services/AppError';
+import { LoadErrorComponent } from 'src/app/shared/load-error/LoadErrorComponent';
+import { searchItems } from 'src/app/shared/utils/TextSearch';
 
 @Component({
     selector: 'app-orders',
@@ -15,12 +19,16 @@ import { TableModule } from 'primeng/table';
     imports: [
         CommonModule,
         FormsModule,
-        TableModule
+        RouterModule,
+        TableModule,
+        LoadErrorComponent
     ]
 })
 export class OrdersComponent {
   orders: IOrder[] = [];
   filteredOrders: IOrder[] = [];
+  // Set when the list could not be loaded, as opposed to an empty list
+  loadError: string | null = null;
   loading = true;
   searchText: string = '';
   expandedOrderId: number | null = null;
@@ -50,6 +58,7 @@ export class OrdersComponent {
 
   loadOrders(email: string): void {
     this.loading = true;
+    this.loadError = null;
     this.cdr.markForCheck();
     this.orderService.getOrdersByUserEmail(email).subscribe({
       next: (orders) => {
@@ -62,12 +71,20 @@ export class OrdersComponent {
         console.error('Error loading orders:', err);
         this.orders = [];
         this.filteredOrders = [];
+        this.loadError = AppError.from(err).message;
         this.loading = false;
         this.cdr.markForCheck();
       },
     });
   }
 
+  retryLoad(): void {
+    const email = this.userService.email;
+    if (email) {
+      this.loadOrders(email);
+    }
+  }
+
 
   toggleOrderDetails(orderId: number): void {
     this.expandedOrderId = this.expandedOrderId === orderId ? null : orderId;
@@ -79,9 +96,10 @@ export class OrdersComponent {
   }
 
   filterOrders() {
-    this.filteredOrders = this.orders.filter((order) =>
-      order.orderDate.toLowerCase().includes(this.searchText.toLowerCase())
-    );
+    this.filteredOrders = searchItems(this.orders, this.searchText, [
+      { value: (order) => order.orderDate, weight: 1 },
+      { value: (order) => new Date(order.orderDate).toLocaleDateString(), weight: 1 },
+    ]);
     this.cdr.markForCheck();
   }
 
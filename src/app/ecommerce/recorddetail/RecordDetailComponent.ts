@@ -0,0 +1,245 @@
+import { Component, inject, ChangeDetectionStrategy, ChangeDetectorRef, DestroyRef } from "@angular/core";
+import { takeUntilDestroyed } from "@angular/core/rxjs-interop";
+import { CommonModule } from "@angular/common";
+import { FormsModule } from "@angular/forms";
+import { ActivatedRoute, RouterModule } from "@angular/router";
+import { ButtonModule } from "primeng/button";
+import { Observable, finalize } from "rxjs";
+
+import { RecordsService } from "../services/RecordsService";
+import { CartService } from "../services/CartService";
+import { CartStore } from "../cart/CartStore";
+import { AlertsService } from "../services/AlertsService";
+import { UserService } from "src/app/services/UserService";
+import { AuthGuard } from "src/app/guards/AuthGuardService";
+import { AppError } from "src/app/services/AppError";
+import { LoadErrorComponent } from "src/app/shared/load-error/LoadErrorComponent";
+import { NotificationService } from "src/app/shared/services/NotificationService";
+import { WishlistButtonComponent } from "../wishlist/WishlistButtonComponent";
+import { ICartLine, IRecord, IRecordAlert } from "../EcommerceInterface";
+
+// Below this many units the page warns that the record is running out
+const LOW_STOCK_THRESHOLD = 5;
+
+@Component({
+    selector: "app-record-detail",
+    templateUrl: "./RecordDetailComponent.html",
+    changeDetection: ChangeDetectionStrategy.OnPush,
+    imports: [
+        CommonModule,
+        FormsModule,
+        RouterModule,
+        ButtonModule,
+        LoadErrorComponent,
+        WishlistButtonComponent
+    ]
+})
+export class RecordDetailComponent {
+  record: IRecord | null = null;
+  recordId: number | null = null;
+  amountInCart = 0;
+  loading = false;
+  notFound = false;
+  loadError: string | null = null;
+  cartEnabled = false;
+  isUpdatingCart = false;
+  // Alerts of the customer on this record
+  stockAlert: IRecordAlert | null = null;
+  priceAlert: IRecordAlert | null = null;
+  targetPrice: number | null = null;
+  private cartItems: ICartLine[] = [];
+
+  private readonly route = inject(ActivatedRoute);
+  private readonly recordsService = inject(RecordsService);
+  private readonly cartService = inject(CartService);
+  private readonly cartStore = inject(CartStore);
+  private readonly alertsService = inject(AlertsService);
+  private readonly userService = inject(UserService);
+  private readonly authGuard = inject(AuthGuard);
+  private readonly notifications = inject(NotificationService);
+  private readonly cdr = inject(ChangeDetectorRef);
+  private readonly destroyRef = inject(DestroyRef);
+
+  constructor() {
+    this.route.paramMap.pipe(takeUntilDestroyed(this.destroyRef)).subscribe((params) => {
+      const id = Number(params.get("id"));
+      this.recordId = Number.isInteger(id) && id > 0 ? id : null;
+      this.updateAmountInCart();
+      this.updateAlerts();
+      this.loadRecord();
+    });
+
+    this.alertsService.alerts$.pipe(takeUntilDestroyed(this.destroyRef)).subscribe(() => {
+      this.updateAlerts();
+      this.cdr.markForCheck();
+    });
+
+    // Amount of this record in the cart, kept in sync with the navbar
+    this.cartService.cart$.pipe(takeUntilDestroyed(this.destroyRef)).subscribe((cartItems) => {
+      this.cartItems = cartItems;
+      this.updateAmountInCart();
+      this.cdr.markForCheck();
+    });
+
+    // The record stays locked while one of its cart changes waits for the server
+    this.cartService.pendingRecords$.pipe(takeUntilDestroyed(this.destroyRef)).subscribe((pendingRecords) => {
+      this.isUpdatingCart = this.recordId !== null && pendingRecords.has(this.recordId);
+      this.cdr.markForCheck();
+    });
+
+    // Stock changes made from other pages or tabs
+    this.cartStore.stockUpdate$.pipe(takeUntilDestroyed(this.destroyRef)).subscribe((update) => {
+      if (this.record && update.recordId === this.record.idRecord) {
+        this.record = { ...this.record, stock: update.newStock };
+        this.cdr.markForCheck();
+      }
+    });
+
+    if (this.isLoggedIn()) {
+      this.checkCartStatus();
+    }
+  }
+
+  get stockState(): "out" | "low" | "available" {
+    const stock = this.record?.stock ?? 0;
+    if (stock <= 0) return "out";
+    return stock <= LOW_STOCK_THRESHOLD ? "low" : "available";
+  }
+
+  // A visitor's cart does not reserve stock, so its lines are capped by the stock instead
+  get canAdd(): boolean {
+    return (
+      !!this.record &&
+      this.canUseCart() &&
+      !this.record.discontinued &&
+      (this.isLoggedIn() ? this.record.stock > 0 : this.amountInCart < this.record.stock) &&
+      !this.isUpdatingCart
+    );
+  }
+
+  get canRemove(): boolean {
+    return this.canUseCart() && this.amountInCart > 0 && !this.isUpdatingCart;
+  }
+
+  // Only a disabled account cart cannot be used
+  canUseCart(): boolean {
+    return !this.isLoggedIn() || this.cartEnabled;
+  }
+
+  // Discontinued records do not come back
+  get canWatchStock(): boolean {
+    return !!this.record && !this.record.discontinued && this.record.stock <= 0;
+  }
+
+  // The target has to be under the current price, otherwise the alert would fire at once
+  get canWatchPrice(): boolean {
+    return (
+      !!this.record &&
+      this.targetPrice !== null &&
+      this.targetPrice > 0 &&
+      this.targetPrice < this.record.price
+    );
+  }
+
+  isLoggedIn(): boolean {
+    return this.authGuard.isLoggedIn();
+  }
+
+  isAdmin(): boolean {
+    return this.userService.isAdmin();
+  }
+
+  loadRecord(): void {
+    this.record = null;
+    this.notFound = this.recordId === null;
+    this.loadError = null;
+    if (this.recordId === null) {
+      this.cdr.markForCheck();
+      return;
+    }
+
+    this.loading = true;
+    this.cdr.markForCheck();
+    this.recordsService
+      .getRecordById(this.recordId)
+      .pipe(
+        takeUntilDestroyed(this.destroyRef),
+        finalize(() => {
+          this.loading = false;
+          this.cdr.markForCheck();
+        })
+      )
+      .subscribe({
+        next: (record) => {
+          this.record = record;
+          this.cartStore.updateStocks([record]);
+        },
+        error: (error) => {
+          const appError = AppError.from(error);
+          if (appError.kind === "notFound") {
+            this.notFound = true;
+          } else {
+            this.loadError = appError.message;
+          }
+        },
+      });
+  }
+
+  addToCart(): void {
+    if (!this.record || !this.canAdd) return;
+    this.updateCart(this.cartService.addToCart(this.record), "Error adding to cart");
+  }
+
+  removeFromCart(): void {
+    if (!this.record || !this.canRemove) return;
+    this.updateCart(this.cartService.removeFromCart(this.record), "Error removing from cart");
+  }
+
+  // The cart service updates the cart and the stock at once, rolls them back
+  // with a message if the server rejects the change, and then syncs the cart
+  private updateCart(operation: Observable<unknown>, errorSummary: string): void {
+    operation.pipe(takeUntilDestroyed(this.destroyRef)).subscribe({
+      error: (error) => console.error(`[RecordDetailComponent] ${errorSummary}:`, error),
+    });
+  }
+
+  watchStock(): void {
+    if (!this.record || !this.canWatchStock) return;
+    this.alertsService.watch(this.record, "backInStock");
+    this.notifications.success("We will let you know when it is back in stock");
+  }
+
+  watchPrice(): void {
+    if (!this.record || !this.canWatchPrice) return;
+    this.alertsService.watch(this.record, "priceBelow", this.targetPrice);
+    this.notifications.success(`We will let you know when it costs ${this.targetPrice!.toFixed(2)} € or less`);
+    this.targetPrice = null;
+  }
+
+  unwatch(alert: IRecordAlert): void {
+    this.alertsService.unwatch(alert);
+  }
+
+  private updateAlerts(): void {
+    const recordId = this.recordId;
+    this.stockAlert = recordId === null ? null : this.alertsService.alertFor(recordId, "backInStock");
+    this.priceAlert = recordId === null ? null : this.alertsService.alertFor(recordId, "priceBelow");
+  }
+
+  private updateAmountInCart(): void {
+    this.amountInCart = this.cartItems.find((item) => item.recordId === this.recordId)?.amount ?? 0;
+  }
+
+  private checkCartStatus(): void {
+    const email = this.userService.email;
+    if (!email) return;
+
+    this.cartService
+      .getCartStatus(email)
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe((status) => {
+        this.cartEnabled = status.enabled;
+        this.cdr.markForCheck();
+      });
+  }
+}
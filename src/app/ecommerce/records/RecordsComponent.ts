@@ -5,25 +5,33 @@ import {
   inject,
   afterNextRender,
   ChangeDetectionStrategy,
-  ChangeDetectorRef
+  ChangeDetectorRef,
+  DestroyRef
 } from "@angular/core";
 import { takeUntilDestroyed } from "@angular/core/rxjs-interop";
 import { CommonModule } from "@angular/common";
 import { FormsModule, NgForm } from "@angular/forms";
 import { ConfirmationService } from "primeng/api";
-import { TableModule } from "primeng/table";
+import { TableLazyLoadEvent, TableModule } from "primeng/table";
 import { ButtonModule } from "primeng/button";
 import { ConfirmDialogModule } from "primeng/confirmdialog";
 import { DialogModule } from "primeng/dialog";
 import { InputTextModule } from "primeng/inputtext";
 import { InputNumberModule } from "primeng/inputnumber";
 import { CheckboxModule } from "primeng/checkbox";
-import { IRecord } from "../EcommerceInterface";
-import { RecordsService } from "../services/RecordsService";
+import { finalize } from "rxjs";
+import { IGroup, IRecord, IRecordQuery } from "../EcommerceInterface";
+import { RecordsService, SEARCH_MAX_RECORDS } from "../services/RecordsService";
 import { GroupsService } from "../services/GroupsService";
-import { StockService } from "../services/StockService";
+import { CartStore } from "../cart/CartStore";
 import { CartService } from "../services/CartService";
 import { UserService } from "src/app/services/UserService";
+import { AppError } from "src/app/services/AppError";
+import { LoadErrorComponent } from "src/app/shared/load-error/LoadErrorComponent";
+import { HighlightPipe } from "src/app/shared/pipes/HighlightPipe";
+import { NotificationService } from "src/app/shared/services/NotificationService";
+import { applyServerErrors } from "src/app/shared/utils/ServerValidation";
+import { ListUrlState } from "src/app/shared/utils/ListUrlState";
 
 @Component({
     selector: "app-records",
@@ -38,17 +46,29 @@ import { UserService } from "src/app/services/UserService";
         DialogModule,
         InputTextModule,
         InputNumberModule,
-        CheckboxModule
+        CheckboxModule,
+        LoadErrorComponent,
+        HighlightPipe
     ],
     providers: [ConfirmationService]
 })
 export class RecordsComponent {
   @ViewChild("form") form!: NgForm;
   @ViewChild("fileInput") fileInput!: ElementRef;
-  visibleError = false;
-  errorMessage = "";
+  // Current page of the catalog, paged and sorted on the server, a search in the browser
   records: IRecord[] = [];
-  filteredRecords: IRecord[] = [];
+  totalRecords = 0;
+  // Table state mirrored from the query params
+  first = 0;
+  rows = 5;
+  sortField: string | null = null;
+  sortOrder: 1 | -1 = 1;
+  loading = false;
+  // Set when the list could not be loaded, as opposed to an empty list
+  loadError: string | null = null;
+  // Set when the search only covered the first records read
+  searchCut = false;
+  readonly searchLimit = SEARCH_MAX_RECORDS;
   visibleConfirm = false;
   imageRecord = "";
   visiblePhoto = false;
@@ -70,16 +90,20 @@ export class RecordsComponent {
     nameGroup: "",
   };
 
-  groups: any[] = [];
-  recordService: any;
+  groups: IGroup[] = [];
 
   private readonly recordsService = inject(RecordsService);
   private readonly groupsService = inject(GroupsService);
   private readonly confirmationService = inject(ConfirmationService);
-  private readonly stockService = inject(StockService);
+  private readonly notifications = inject(NotificationService);
+  private readonly cartStore = inject(CartStore);
   private readonly cartService = inject(CartService);
   private readonly userService = inject(UserService);
   private readonly cdr = inject(ChangeDetectorRef);
+  private readonly destroyRef = inject(DestroyRef);
+
+  readonly listState = new ListUrlState({ rows: 5 });
+  private query: IRecordQuery = { page: 1, pageSize: this.rows };
 
   // Function to compare values in the select
   compareFn(option1: any, option2: any): boolean {
@@ -88,26 +112,30 @@ export class RecordsComponent {
   }
 
   constructor() {
-    // Load initial data
-    this.getRecords();
     this.getGroups();
 
+    // The page to load comes from the URL: the table and the search box only
+    // update the query params, also followed on back/forward
+    this.listState.changes$.pipe(takeUntilDestroyed()).subscribe((state) => {
+      if (state.search !== this.searchText.trim()) {
+        this.searchText = state.search;
+      }
+      this.first = this.listState.firstRow(state);
+      this.rows = state.rows;
+      this.sortField = state.sortField;
+      this.sortOrder = state.sortOrder;
+      this.query = { ...this.listState.toPageQuery(state), search: state.search || undefined };
+      this.getRecords();
+    });
+
     // Subscribe to stock updates
-    this.stockService.stockUpdate$
+    this.cartStore.stockUpdate$
       .pipe(takeUntilDestroyed())
-      .subscribe((update) => {
-        if (!update) return;
-        
-        const { recordId, newStock } = update;
-        
+      .subscribe(({ recordId, newStock }) => {
         // Create new array references to trigger change detection
         this.records = this.records.map(record => 
           record.idRecord === recordId ? { ...record, stock: newStock } : record
         );
-        
-        this.filteredRecords = this.filteredRecords.map(record => 
-          record.idRecord === recordId ? { ...record, stock: newStock } : record
-        );
         this.cdr.markForCheck();
       });
 
@@ -117,12 +145,12 @@ export class RecordsComponent {
       .subscribe((cartItems) => {
         this.records.forEach((record) => {
           const cartItem = cartItems.find(
-            (item) => item.idRecord === record.idRecord
+            (item) => item.recordId === record.idRecord
           );
           record.inCart = !!cartItem;
           record.amount = cartItem ? cartItem.amount || 0 : 0;
         });
-        this.filteredRecords = [...this.records];
+        this.records = [...this.records];
         this.cdr.markForCheck();
       });
 
@@ -133,134 +161,65 @@ export class RecordsComponent {
 
   }
 
-  getRecords() {
-    this.recordsService.getRecords().subscribe({
-      next: (data: any) => {
-        // Extract records array from response
-        let recordsArray: any[] = [];
-        if (Array.isArray(data)) {
-          recordsArray = data;
-        } else if (data && Array.isArray(data.$values)) {
-          recordsArray = data.$values;
-        } else if (data && Array.isArray(data.data)) {
-          recordsArray = data.data;
-        }
-        
-        // Initialize stock values in the stock service
-        recordsArray.forEach(record => {
-          if (record.idRecord && typeof record.stock === 'number') {
-            this.stockService.updateStock(record.idRecord, record.stock);
-          }
-        });
-
-        // Get the groups to assign names
-        this.groupsService.getGroups().subscribe({
-          next: (groupsResponse: any) => {
-            let groups: any[] = [];
-            if (Array.isArray(groupsResponse)) {
-              groups = groupsResponse;
-            } else if (groupsResponse && Array.isArray(groupsResponse.$values)) {
-              groups = groupsResponse.$values;
-            }
-
-            // Assign the group name to each record
-            const processedRecords = recordsArray.map((record: any) => {
-              // Ensure required properties exist
-              const processedRecord: IRecord = {
-                idRecord: record.idRecord || 0,
-                titleRecord: record.titleRecord || '',
-                yearOfPublication: record.yearOfPublication || null,
-                imageRecord: record.imageRecord || null,
-                photo: record.photo || null,
-                photoName: record.photoName || null,
-                price: record.price || 0,
-                stock: record.stock || 0,
-                discontinued: record.discontinued || false,
-                groupId: record.groupId || null,
-                groupName: '',
-                nameGroup: ''
-              };
-              
-              // Find matching group and assign name
-              if (processedRecord.groupId !== null) {
-                const group = groups.find(g => g.idGroup === processedRecord.groupId);
-                if (group) {
-                  processedRecord.groupName = group.nameGroup || '';
-                  processedRecord.nameGroup = group.nameGroup || '';
-                }
-              }
-              
-              return processedRecord;
-            });
-
-            this.records = processedRecords;
-            this.filteredRecords = [...this.records];
-            this.cdr.markForCheck();
-          },
-          error: (err) => {
-            console.error("Error getting groups:", err);
-            this.records = recordsArray;
-            this.filteredRecords = [...this.records];
-            this.cdr.markForCheck();
-          },
-        });
-      },
-      error: (err) => {
-        console.error("Error getting records:", err);
-        this.visibleError = true;
-        this.controlError(err);
-      },
-    });
+  onLazyLoad(event: TableLazyLoadEvent) {
+    this.listState.lazyLoad(event);
   }
 
-  filterRecords() {
-    if (!this.searchText?.trim()) {
-      this.filteredRecords = [...this.records];
-      this.cdr.markForCheck();
-      return;
-    }
-
-    const searchTerm = this.searchText.toLowerCase();
-    this.filteredRecords = this.records.filter((record) => {
-      return (
-        record.titleRecord?.toLowerCase().includes(searchTerm) ||
-        record.groupName?.toLowerCase().includes(searchTerm) ||
-        record.yearOfPublication?.toString().includes(searchTerm)
-      );
-    });
+  // Reloads the current page, e.g. after a save or a delete
+  getRecords() {
+    this.loading = true;
     this.cdr.markForCheck();
+    this.recordsService
+      .searchRecordsPage(this.query)
+      .pipe(
+        takeUntilDestroyed(this.destroyRef),
+        finalize(() => {
+          this.loading = false;
+          this.cdr.markForCheck();
+        })
+      )
+      .subscribe({
+        next: (page) => {
+          this.records = this.withGroupNames(page.items);
+          this.totalRecords = page.totalCount;
+          this.searchCut = page.cut;
+          this.loadError = null;
+        },
+        error: (err) => {
+          console.error("Error getting records:", err);
+          this.records = [];
+          this.totalRecords = 0;
+          this.searchCut = false;
+          this.loadError = AppError.from(err).message;
+        },
+      });
   }
 
   onSearchChange() {
-    this.filterRecords();
+    this.listState.search(this.searchText);
+  }
+
+  // The paged endpoint may not join the group, the names come from the groups list
+  private withGroupNames(records: IRecord[]): IRecord[] {
+    return records.map((record) => {
+      const group = this.groups.find((g) => g.idGroup === record.groupId);
+      const groupName = record.groupName || group?.nameGroup || "";
+      return { ...record, groupName, nameGroup: groupName };
+    });
   }
 
   getGroups() {
-    this.groupsService.getGroups().subscribe({
-      next: (response: any) => {
-        // Flexible handling of different response structures
-        let groupsArray = [];
-
-        if (Array.isArray(response)) {
-          // The answer is a direct array
-          groupsArray = response;
-        } else if (Array.isArray(response.$values)) {
-          // The response has property $values
-          groupsArray = response.$values;
-        } else if (Array.isArray(response.data)) {
-          // The response has data property
-          groupsArray = response.data;
-        } else {
-          console.warn("Unexpected API response structure:", response);
-        }
-
-        this.groups = groupsArray;
+    this.groupsService.getGroups().pipe(
+      takeUntilDestroyed(this.destroyRef)
+    ).subscribe({
+      next: (groups) => {
+        this.groups = groups;
+        this.records = this.withGroupNames(this.records);
         this.cdr.markForCheck();
       },
       error: (err) => {
         console.error("Error loading groups:", err);
-        this.visibleError = true;
-        this.controlError(err);
+        this.notifications.error(err);
       },
     });
   }
@@ -294,29 +253,20 @@ export class RecordsComponent {
     if (this.record.idRecord === 0) {
       this.recordsService.addRecord(this.record).subscribe({
         next: (data) => {
-          this.visibleError = false;
           this.form.reset();
           this.getRecords();
         },
-        error: (err) => {
-          console.log(err);
-          this.visibleError = true;
-          this.controlError(err);
-        },
+        error: (err) => this.handleSaveError(err),
       });
     } else {
       this.recordsService.updateRecord(this.record).subscribe({
         next: (data) => {
-          this.visibleError = false;
           this.cancelEdition();
           this.form.reset();
           this.getRecords();
           this.cdr.markForCheck();
         },
-        error: (err) => {
-          this.visibleError = true;
-          this.controlError(err);
-        },
+        error: (err) => this.handleSaveError(err),
       });
     }
   }
@@ -335,13 +285,11 @@ export class RecordsComponent {
   deleteRecord(id: number) {
     this.recordsService.deleteRecord(id).subscribe({
       next: (data: IRecord) => {
-        this.visibleError = false;
         this.getRecords();
         this.cdr.markForCheck();
       },
-      error: (err: any) => {
-        this.visibleError = true;
-        this.controlError(err);
+      error: (err) => {
+        this.notifications.error(err);
       }
     });
   }
@@ -379,14 +327,12 @@ export class RecordsComponent {
     this.cdr.markForCheck();
   }
 
-  controlError(err: any) {
-    if (err.error && typeof err.error === "object" && err.error.message) {
-      this.errorMessage = err.error.message;
-    } else if (typeof err.error === "string") {
-      this.errorMessage = err.error;
-    } else {
-      this.errorMessage = "An unexpected error has occurred";
+  private handleSaveError(err: unknown) {
+    // Validation messages go under the field, anything else to a notification
+    if (!applyServerErrors(this.form, err, { groupId: "group", photo: "nameImage" })) {
+      this.notifications.error(err);
     }
+    this.cdr.markForCheck();
   }
 
   addToCart(record: IRecord): void {
@@ -398,14 +344,14 @@ export class RecordsComponent {
         // Update UI locally
         record.inCart = true;
         record.amount = (record.amount || 0) + 1;
-        this.filteredRecords = [...this.records];
+        this.records = [...this.records];
       },
       (error) => {
         console.error("Error adding to cart:", error);
         // Revert local changes if it fails
         record.inCart = false;
         record.amount = 0;
-        this.filteredRecords = [...this.records];
+        this.records = [...this.records];
       }
     );
   }
@@ -419,14 +365,14 @@ export class RecordsComponent {
         // Update UI locally
         record.amount = Math.max(0, (record.amount || 0) - 1);
         record.inCart = record.amount > 0;
-        this.filteredRecords = [...this.records];
+        this.records = [...this.records];
       },
       (error) => {
         console.error("Error removing from cart:", error);
         // Revert local changes if it fails
         record.amount = (record.amount || 0) + 1;
         record.inCart = true;
-        this.filteredRecords = [...this.records];
+        this.records = [...this.records];
       }
     );
   }
@@ -0,0 +1,100 @@
+import { Component, inject, output, ChangeDetectionStrategy, ChangeDetectorRef, DestroyRef } from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { CommonModule } from '@angular/common';
+import { RouterModule } from '@angular/router';
+import { ButtonModule } from 'primeng/button';
+import { finalize } from 'rxjs/operators';
+import { ISavedForLaterItem } from '../EcommerceInterface';
+import { SavedForLaterService } from '../services/SavedForLaterService';
+import { CartService } from '../services/CartService';
+import { UserService } from 'src/app/services/UserService';
+import { LoadErrorComponent } from 'src/app/shared/load-error/LoadErrorComponent';
+import { NotificationService } from 'src/app/shared/services/NotificationService';
+import { ISavedRecordEntry, SavedRecords } from '../savedrecords/SavedRecords';
+
+// "Saved for later" list under the cart table
+@Component({
+    selector: 'app-saved-for-later',
+    templateUrl: './SavedForLaterComponent.html',
+    changeDetection: ChangeDetectionStrategy.OnPush,
+    imports: [
+        CommonModule,
+        RouterModule,
+        ButtonModule,
+        LoadErrorComponent
+    ]
+})
+export class SavedForLaterComponent {
+  // Emitted once a saved line is back in the cart
+  readonly movedToCart = output<void>();
+
+  cartEnabled = false;
+  movingRecordId: number | null = null;
+
+  private readonly savedForLaterService = inject(SavedForLaterService);
+  private readonly cartService = inject(CartService);
+  private readonly userService = inject(UserService);
+  private readonly notifications = inject(NotificationService);
+  private readonly cdr = inject(ChangeDetectorRef);
+  private readonly destroyRef = inject(DestroyRef);
+  readonly saved = new SavedRecords(this.savedForLaterService.items$);
+
+  constructor() {
+    this.saved.changes$.pipe(takeUntilDestroyed()).subscribe(() => this.cdr.markForCheck());
+
+    const email = this.userService.email;
+    if (email) {
+      this.cartService
+        .getCartStatus(email)
+        .pipe(takeUntilDestroyed())
+        .subscribe((status) => {
+          this.cartEnabled = status.enabled;
+          this.cdr.markForCheck();
+        });
+    }
+  }
+
+  canMoveToCart(entry: ISavedRecordEntry<ISavedForLaterItem>): boolean {
+    const record = entry.record;
+    return (
+      !!record &&
+      this.cartEnabled &&
+      !record.discontinued &&
+      record.stock > 0 &&
+      this.movingRecordId === null
+    );
+  }
+
+  moveToCart(entry: ISavedRecordEntry<ISavedForLaterItem>): void {
+    if (!entry.record || !this.canMoveToCart(entry)) return;
+    const amount = Math.min(entry.item.amount, entry.record.stock);
+    this.movingRecordId = entry.record.idRecord;
+    this.cdr.markForCheck();
+
+    this.savedForLaterService
+      .moveToCart(entry.item, entry.record)
+      .pipe(
+        takeUntilDestroyed(this.destroyRef),
+        finalize(() => {
+          this.movingRecordId = null;
+          this.cdr.markForCheck();
+        })
+      )
+      .subscribe({
+        next: () => {
+          if (amount < entry.item.amount) {
+            this.notifications.warn(
+              `Only ${amount} of ${entry.item.amount} units of ${entry.item.titleRecord} were in stock, the rest stays saved`
+            );
+          }
+          this.movedToCart.emit();
+        },
+        // The cart service has already told the user why
+        error: (error) => console.error('Error moving to cart:', error),
+      });
+  }
+
+  remove(entry: ISavedRecordEntry<ISavedForLaterItem>): void {
+    this.savedForLaterService.remove(entry.item.recordId);
+  }
+}
@@ -0,0 +1,99 @@
+import { DestroyRef, inject } from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { Observable, Subject, forkJoin, of, throwError } from 'rxjs';
+import { catchError, finalize, map } from 'rxjs/operators';
+import { AppError } from 'src/app/services/AppError';
+import { IRecord } from '../EcommerceInterface';
+import { RecordsService } from '../services/RecordsService';
+import { CartStore } from '../cart/CartStore';
+
+export interface ISavedRecordEntry<T> {
+  item: T;
+  // Current details, null until they are read or when the record is gone
+  record: IRecord | null;
+  // The record was looked up and no longer exists
+  missing: boolean;
+}
+
+// Records saved by the customer (wishlist, saved for later) with their current
+// details. Only the saved records are read, by id, as they are saved; their
+// stock follows the cart store. Until a record is read it is shown as it was
+// saved. Create it in a field initializer and mark the view for check on changes$
+export class SavedRecords<T extends { recordId: number }> {
+  private readonly recordsService = inject(RecordsService);
+  private readonly cartStore = inject(CartStore);
+  private readonly destroyRef = inject(DestroyRef);
+  private readonly changesSubject = new Subject<void>();
+  readonly changes$ = this.changesSubject.asObservable();
+
+  entries: ISavedRecordEntry<T>[] = [];
+  // Set when some details could not be read; the saved ones are shown
+  loadError: string | null = null;
+  private items: T[] = [];
+  // Records read so far, null for the ones that no longer exist
+  private readonly records = new Map<number, IRecord | null>();
+  private readonly reading = new Set<number>();
+
+  constructor(items$: Observable<T[]>) {
+    items$.pipe(takeUntilDestroyed()).subscribe((items) => {
+      this.items = items;
+      this.updateEntries();
+      this.load(items.map((item) => item.recordId).filter((recordId) => !this.records.has(recordId)));
+    });
+
+    // Stock changes made by carts (this one included) while the page is open
+    this.cartStore.stockUpdate$.pipe(takeUntilDestroyed()).subscribe(({ recordId, newStock }) => {
+      const record = this.records.get(recordId);
+      if (!record) return;
+      this.records.set(recordId, { ...record, stock: newStock });
+      this.updateEntries();
+    });
+  }
+
+  // Reads the details of every saved record again
+  reload(): void {
+    this.load(this.items.map((item) => item.recordId));
+  }
+
+  private load(recordIds: number[]): void {
+    const ids = [...new Set(recordIds)].filter((recordId) => !this.reading.has(recordId));
+    if (ids.length === 0) return;
+    ids.forEach((recordId) => this.reading.add(recordId));
+    this.loadError = null;
+
+    forkJoin(
+      ids.map((recordId) =>
+        this.recordsService.getRecordById(recordId).pipe(
+          catchError((error) =>
+            AppError.from(error).kind === 'notFound' ? of(null) : throwError(() => error)
+          ),
+          map((record) => ({ recordId, record }))
+        )
+      )
+    )
+      .pipe(
+        takeUntilDestroyed(this.destroyRef),
+        finalize(() => ids.forEach((recordId) => this.reading.delete(recordId)))
+      )
+      .subscribe({
+        next: (results) => {
+          results.forEach(({ recordId, record }) => this.records.set(recordId, record));
+          this.updateEntries();
+        },
+        error: (error) => {
+          console.error('Error loading saved records:', error);
+          this.loadError = AppError.from(error).message;
+          this.changesSubject.next();
+        },
+      });
+  }
+
+  private updateEntries(): void {
+    this.entries = this.items.map((item) => ({
+      item,
+      record: this.records.get(item.recordId) ?? null,
+      missing: this.records.get(item.recordId) === null,
+    }));
+    this.changesSubject.next();
+  }
+}
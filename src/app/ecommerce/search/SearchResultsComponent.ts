@@ -0,0 +1,81 @@
+import { Component, inject, ChangeDetectionStrategy, ChangeDetectorRef, DestroyRef } from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { CommonModule } from '@angular/common';
+import { ActivatedRoute, RouterModule } from '@angular/router';
+import { finalize } from 'rxjs/operators';
+import { ISearchResults } from '../EcommerceInterface';
+import { CatalogSearchService } from '../services/CatalogSearchService';
+import { AppError } from 'src/app/services/AppError';
+import { LoadErrorComponent } from 'src/app/shared/load-error/LoadErrorComponent';
+
+// Records shown on the results page; the catalog page filters the rest
+const RESULTS_LIMIT = 25;
+
+@Component({
+    selector: 'app-search-results',
+    templateUrl: './SearchResultsComponent.html',
+    changeDetection: ChangeDetectionStrategy.OnPush,
+    imports: [
+        CommonModule,
+        RouterModule,
+        LoadErrorComponent
+    ]
+})
+export class SearchResultsComponent {
+  term = '';
+  results: ISearchResults | null = null;
+  loading = false;
+  // Set when the search failed, as opposed to a search without matches
+  loadError: string | null = null;
+
+  private readonly route = inject(ActivatedRoute);
+  private readonly searchService = inject(CatalogSearchService);
+  private readonly cdr = inject(ChangeDetectorRef);
+  private readonly destroyRef = inject(DestroyRef);
+
+  constructor() {
+    this.route.queryParamMap.pipe(takeUntilDestroyed()).subscribe((params) => {
+      this.term = (params.get('q') ?? '').trim();
+      this.search();
+    });
+  }
+
+  get isEmpty(): boolean {
+    return (
+      !!this.results &&
+      this.results.genres.length === 0 &&
+      this.results.groups.length === 0 &&
+      this.results.records.length === 0
+    );
+  }
+
+  search(): void {
+    this.results = null;
+    this.loadError = null;
+    if (!this.term) {
+      this.cdr.markForCheck();
+      return;
+    }
+
+    this.loading = true;
+    this.cdr.markForCheck();
+    this.searchService
+      .search(this.term, RESULTS_LIMIT)
+      .pipe(
+        takeUntilDestroyed(this.destroyRef),
+        finalize(() => {
+          this.loading = false;
+          this.cdr.markForCheck();
+        })
+      )
+      .subscribe({
+        next: (results) => {
+          this.results = results;
+        },
+        error: (error) => {
+          console.error('Error searching the catalog:', error);
+          this.loadError = AppError.from(error).message;
+        },
+      });
+  }
+}
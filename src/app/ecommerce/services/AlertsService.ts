@@ -0,0 +1,250 @@
+import { Injectable, OnDestroy, inject } from '@angular/core';
+import { HttpHeaders } from '@angular/common/http';
+import { BehaviorSubject, EMPTY, Observable, Subject, forkJoin, of, timer } from 'rxjs';
+import { catchError, exhaustMap, filter, map, mergeMap, switchMap, takeUntil, tap } from 'rxjs/operators';
+import { ApiClient } from 'src/app/services/ApiClient';
+import { AuthGuard } from 'src/app/guards/AuthGuardService';
+import { UserService } from 'src/app/services/UserService';
+import { NotificationService } from 'src/app/shared/services/NotificationService';
+import { IAlertNotification, IRecord, IRecordAlert, RecordAlertKind } from '../EcommerceInterface';
+import { recordAlertSchema } from '../EcommerceSchemas';
+import { RecordsService } from './RecordsService';
+import { CartStore } from '../cart/CartStore';
+
+// How often the watched records are checked while the customer is signed in
+const ALERT_CHECK_INTERVAL_MS = 5 * 60 * 1000;
+// Notifications kept in the navbar list, the oldest are dropped
+const MAX_NOTIFICATIONS = 20;
+
+// Back-in-stock and price-drop alerts of the customer. The alerts live in the
+// shopping service (with a copy in localStorage used when it cannot be reached);
+// the watched records are checked on login, periodically and on every stock
+// update of the session, and each alert fires once
+@Injectable({
+  providedIn: 'root',
+})
+export class AlertsService implements OnDestroy {
+  private readonly alertsSubject = new BehaviorSubject<IRecordAlert[]>([]);
+  readonly alerts$ = this.alertsSubject.asObservable();
+  private readonly notificationsSubject = new BehaviorSubject<IAlertNotification[]>([]);
+  readonly notifications$ = this.notificationsSubject.asObservable();
+  private readonly destroy$ = new Subject<void>();
+
+  private readonly apiClient = inject(ApiClient);
+  private readonly authGuard = inject(AuthGuard);
+  private readonly userService = inject(UserService);
+  private readonly recordsService = inject(RecordsService);
+  private readonly cartStore = inject(CartStore);
+  private readonly notifications = inject(NotificationService);
+
+  constructor() {
+    this.userService.emailUser$
+      .pipe(
+        switchMap((email) => {
+          // Only customers watch records
+          if (!email || this.userService.isAdmin()) {
+            this.alertsSubject.next([]);
+            this.notificationsSubject.next([]);
+            return EMPTY;
+          }
+          this.notificationsSubject.next(this.getNotificationsForUser(email));
+          return this.loadForUser(email).pipe(
+            tap((alerts) => this.alertsSubject.next(alerts)),
+            switchMap(() => timer(0, ALERT_CHECK_INTERVAL_MS)),
+            filter(() => this.activeAlerts().length > 0),
+            exhaustMap(() => this.getWatchedRecords(this.activeAlerts().map((alert) => alert.recordId)))
+          );
+        }),
+        takeUntil(this.destroy$)
+      )
+      .subscribe((records) => this.check(records));
+
+    // A record put back in stock during the session is checked at once; the
+    // update only has the stock, whether it is discontinued comes with the record
+    this.cartStore.stockUpdate$
+      .pipe(
+        filter(
+          (update) =>
+            update.newStock > 0 &&
+            this.activeAlerts().some((alert) => alert.kind === 'backInStock' && alert.recordId === update.recordId)
+        ),
+        mergeMap((update) => this.getWatchedRecords([update.recordId])),
+        takeUntil(this.destroy$)
+      )
+      .subscribe((records) => this.check(records));
+  }
+
+  get alerts(): IRecordAlert[] {
+    return this.alertsSubject.value;
+  }
+
+  alertFor(recordId: number, kind: RecordAlertKind): IRecordAlert | null {
+    return this.alerts.find((alert) => alert.recordId === recordId && alert.kind === kind) ?? null;
+  }
+
+  // Replaces the alert of the same kind on the record, e.g. with a new target price
+  watch(record: IRecord, kind: RecordAlertKind, targetPrice: number | null = null): void {
+    const alert: IRecordAlert = {
+      recordId: record.idRecord,
+      kind,
+      targetPrice: kind === 'priceBelow' ? targetPrice : null,
+      titleRecord: record.titleRecord,
+      createdAt: new Date().toISOString(),
+      triggeredAt: null,
+    };
+    this.updateAlerts([
+      ...this.alerts.filter((existing) => existing.recordId !== record.idRecord || existing.kind !== kind),
+      alert,
+    ]);
+    // The condition may already be met
+    this.check([record]);
+  }
+
+  unwatch(alert: IRecordAlert): void {
+    this.updateAlerts(this.alerts.filter((existing) => existing !== alert));
+  }
+
+  markAllRead(): void {
+    this.updateNotifications(this.notificationsSubject.value.map((notification) => ({ ...notification, read: true })));
+  }
+
+  clearNotifications(): void {
+    this.updateNotifications([]);
+  }
+
+  getAlertsForUser(email: string): IRecordAlert[] {
+    return this.readStorage(`alerts_${email}`);
+  }
+
+  // Until the service has the alerts, the stored copy is marked as unsynced
+  saveAlertsForUser(email: string, alerts: IRecordAlert[]): void {
+    localStorage.setItem(`alerts_${email}`, JSON.stringify(alerts));
+    localStorage.setItem(`alertsUnsynced_${email}`, 'true');
+    this.apiClient
+      .put<unknown>('shoppingService', `Alerts/${encodeURIComponent(email)}`, alerts, {
+        headers: this.getHeaders(),
+      })
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: () => localStorage.removeItem(`alertsUnsynced_${email}`),
+        // The copy in localStorage is sent again with the next change or login
+        error: (error) => console.warn('[AlertsService] Alerts kept locally, the service failed:', error),
+      });
+  }
+
+  private check(records: IRecord[]): void {
+    const byId = new Map(records.map((record) => [record.idRecord, record]));
+    this.activeAlerts().forEach((alert) => {
+      const record = byId.get(alert.recordId);
+      if (!record) return;
+      if (alert.kind === 'backInStock' && record.stock > 0 && !record.discontinued) {
+        this.trigger(alert, `${alert.titleRecord} is back in stock`);
+      } else if (alert.kind === 'priceBelow' && alert.targetPrice !== null && record.price <= alert.targetPrice) {
+        this.trigger(alert, `${alert.titleRecord} is now ${record.price.toFixed(2)} €`);
+      }
+    });
+  }
+
+  // Only the watched records are read, not the whole catalog. A record that
+  // cannot be read is checked the next time
+  private getWatchedRecords(recordIds: number[]): Observable<IRecord[]> {
+    const ids = [...new Set(recordIds)];
+    if (ids.length === 0) return of([]);
+    return forkJoin(
+      ids.map((id) =>
+        this.recordsService.getRecordById(id).pipe(
+          catchError((error) => {
+            console.warn(`[AlertsService] Could not check the watched record ${id}:`, error);
+            return of(null);
+          })
+        )
+      )
+    ).pipe(map((records) => records.filter((record): record is IRecord => record !== null)));
+  }
+
+  private trigger(alert: IRecordAlert, message: string): void {
+    const now = new Date().toISOString();
+    this.updateAlerts(
+      this.alerts.map((existing) => (existing === alert ? { ...existing, triggeredAt: now } : existing))
+    );
+    this.updateNotifications(
+      [
+        { id: `${alert.recordId}-${alert.kind}-${now}`, recordId: alert.recordId, message, createdAt: now, read: false },
+        ...this.notificationsSubject.value,
+      ].slice(0, MAX_NOTIFICATIONS)
+    );
+    this.notifications.info(message, 'Record alert');
+  }
+
+  private activeAlerts(): IRecordAlert[] {
+    return this.alerts.filter((alert) => alert.triggeredAt === null);
+  }
+
+  private updateAlerts(alerts: IRecordAlert[]): void {
+    this.alertsSubject.next(alerts);
+    const email = this.userService.email;
+    if (email) {
+      this.saveAlertsForUser(email, alerts);
+    }
+  }
+
+  // Notifications are only kept in the browser
+  private updateNotifications(notifications: IAlertNotification[]): void {
+    this.notificationsSubject.next(notifications);
+    const email = this.userService.email;
+    if (email) {
+      localStorage.setItem(`alertNotifications_${email}`, JSON.stringify(notifications));
+    }
+  }
+
+  private getNotificationsForUser(email: string): IAlertNotification[] {
+    return this.readStorage(`alertNotifications_${email}`);
+  }
+
+  // The stored copy wins over the service when its last change could not be
+  // sent, and is sent again
+  private loadForUser(email: string): Observable<IRecordAlert[]> {
+    return this.apiClient
+      .getList('shoppingService', `Alerts/${encodeURIComponent(email)}`, {
+        headers: this.getHeaders(),
+        schema: recordAlertSchema,
+      })
+      .pipe(
+        map((alerts) => {
+          if (localStorage.getItem(`alertsUnsynced_${email}`) === null) {
+            localStorage.setItem(`alerts_${email}`, JSON.stringify(alerts));
+            return alerts;
+          }
+          const stored = this.getAlertsForUser(email);
+          this.saveAlertsForUser(email, stored);
+          return stored;
+        }),
+        catchError((error) => {
+          console.warn('[AlertsService] Using the stored alerts, the service failed:', error);
+          return of(this.getAlertsForUser(email));
+        })
+      );
+  }
+
+  private readStorage<T>(key: string): T[] {
+    try {
+      const json = localStorage.getItem(key);
+      return json ? JSON.parse(json) : [];
+    } catch (error) {
+      console.error(`[AlertsService] Invalid stored ${key}:`, error);
+      return [];
+    }
+  }
+
+  private getHeaders(): HttpHeaders {
+    const token = this.authGuard.getToken();
+    return new HttpHeaders({
+      Authorization: `Bearer ${token}`,
+    });
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+}
@@ -4,28 +4,29 @@ import {
   catchError,
   Observable,
   of,
-  tap,
   map,
   throwError,
   switchMap,
 } from 'rxjs';
-import { environment } from 'src/environments/environment';
+import { APP_CONFIG } from 'src/app/services/AppConfig';
+import { ApiClient, resolvePreserved, toList } from 'src/app/services/ApiClient';
+import { AppError } from 'src/app/services/AppError';
 import { AuthGuard } from '../../guards/AuthGuardService';
+import { ContractViolationError } from 'src/app/services/ContractDiagnosticsService';
 import { ICartDetail, IRecord } from '../EcommerceInterface';
+import { cartDetailSchema } from '../EcommerceSchemas';
 import { UserService } from 'src/app/services/UserService';
-import { StockService } from './StockService';
 import { RecordsService } from './RecordsService';
 
 @Injectable({
   providedIn: 'root',
 })
 export class CartDetailService {
-  urlAPI = environment.apiUrl.shoppingService;
-  private cart: IRecord[] = [];
+  urlAPI = inject(APP_CONFIG).apiUrl.shoppingService;
   private readonly http = inject(HttpClient);
+  private readonly apiClient = inject(ApiClient);
   private readonly authGuard = inject(AuthGuard);
   private readonly userService = inject(UserService);
-  private readonly stockService = inject(StockService);
   private readonly recordsService = inject(RecordsService);
 
   getCartItemCount(email: string): Observable<any> {
@@ -44,18 +45,19 @@ export class CartDetailService {
       );
   }
 
-  getCartDetails(email: string): Observable<{ $values: any[] }> {
+  // A failed load is an error (an AppError), never an empty cart
+  getCartDetails(email: string): Observable<ICartDetail[]> {
     // Check if the user is authenticated before making the request
     if (!this.authGuard.isLoggedIn()) {
       console.warn('[CartDetailService] User is not authenticated');
-      return of({ $values: [] });
+      return throwError(() => new AppError('unauthorized', 'Please log in to see your cart.'));
     }
 
     // Get the current user's email to verify ownership
     const currentUser = this.authGuard.getUser();
     if (email !== currentUser) {
       console.warn(`[CartDetailService] Access denied: User ${currentUser} cannot access cart for ${email}`);
-      return of({ $values: [] });
+      return throwError(() => new AppError('forbidden', "You don't have permission to see this cart."));
     }
 
     // Get the cart ID from the token or session storage
@@ -63,65 +65,47 @@ export class CartDetailService {
     
     // If we don't have a cart ID, try to get cart by email
     if (!cartId) {
-      return this.getCartDetailsByEmail(email).pipe(
-        map(cartDetails => ({
-          $values: Array.isArray(cartDetails) ? cartDetails : [cartDetails]
-        })),
-        catchError(error => {
-          console.error('[CartDetailService] Error getting cart details by email:', error);
-          return of({ $values: [] });
-        })
-      );
+      return this.getCartDetailsByEmail(email);
     }
     
     const headers = this.getHeaders();
-    const url = `${this.urlAPI}CartDetails/GetCartDetailsByCartId/${cartId}`;
     
-    return this.http.get<{ $values: any[] } | any[]>(url, { 
-      headers,
-      observe: 'response'
-    }).pipe(
-      map(response => {
-        const body = response.body;
-        // Handle different possible response formats
-        if (Array.isArray(body)) {
-          return { $values: body };
-        } else if (body && Array.isArray((body as any).$values)) {
-          return body as { $values: any[] };
-        } else if (body && typeof body === 'object') {
-          // If the response is an object but doesn't have $values, return it as is
-          return { $values: [body] };
-        } else {
-          return { $values: [] };
-        }
-      }),
+    return this.apiClient.getList(
+      'shoppingService',
+      `CartDetails/GetCartDetailsByCartId/${cartId}`,
+      { headers, schema: cartDetailSchema }
+    ).pipe(
       catchError((error) => {
+        if (error instanceof ContractViolationError) {
+          return throwError(() => error);
+        }
+        const appError = AppError.from(error);
         console.error('[CartDetailService] Error getting cart details:', {
-          status: error.status,
-          statusText: error.statusText,
-          error: error.error,
-          url: error.url,
-          headers: error.headers
+          kind: appError.kind,
+          status: appError.status,
+          message: appError.message,
+          url: appError.url
         });
         
-        if (error.status === 403) {
+        if (appError.status === 403) {
           console.warn('[CartDetailService] Access denied - User does not have permission to access this cart');
         }
         
         // Fall back to email-based endpoint if cart ID approach fails
-        if (error.status === 404) {
-          return this.http.get<{ $values: any[] }>(
-            `${this.urlAPI}CartDetails/GetCartDetails/${encodeURIComponent(email)}`,
-            { headers }
+        if (appError.status === 404) {
+          return this.apiClient.getList(
+            'shoppingService',
+            `CartDetails/GetCartDetails/${encodeURIComponent(email)}`,
+            { headers, schema: cartDetailSchema }
           ).pipe(
             catchError(fallbackError => {
               console.error('[CartDetailService] Fallback endpoint also failed:', fallbackError);
-              return of({ $values: [] });
+              return throwError(() => fallbackError);
             })
           );
         }
         
-        return of({ $values: [] });
+        return throwError(() => appError);
       })
     );
   }
@@ -139,10 +123,11 @@ export class CartDetailService {
           }
         },
         error: (error) => {
+          const appError = AppError.from(error);
           console.error('[CartDetailService][DEBUG] Error fetching cart details:', {
-            status: error.status,
-            error: error.error,
-            url: error.url
+            status: appError.status,
+            message: appError.message,
+            url: appError.url
           });
         }
       });
@@ -175,27 +160,24 @@ export class CartDetailService {
       )
       .pipe(
         switchMap((response: any) => {
-          // Get the updated stock from the registry
+          // Get the updated stock from the registry; the change is done even
+          // when it cannot be read
           return this.getRecordDetails(recordId).pipe(
-            map(record => {
-              if (!record) {
-                throw new Error('The updated record could not be obtained.');
-              }
-              return {
-                success: true,
-                recordId: recordId,
-                amount: amount,
-                stock: record.stock // Include updated stock
-              };
-            })
+            map(record => ({
+              success: true,
+              recordId: recordId,
+              amount: amount,
+              stock: record?.stock // Include updated stock
+            }))
           );
         }),
         catchError((error) => {
+          const appError = AppError.from(error);
           console.error('[CartDetailService] Error en addToCartDetail:', {
-            status: error.status,
-            statusText: error.statusText,
-            error: error.error,
-            url: error.url
+            kind: appError.kind,
+            status: appError.status,
+            message: appError.message,
+            url: appError.url
           });
           return throwError(() => error);
         })
@@ -223,84 +205,30 @@ export class CartDetailService {
       )
       .pipe(
         switchMap((response: any) => {
-          // Get the updated stock from the registry
+          // Get the updated stock from the registry; the change is done even
+          // when it cannot be read
           return this.getRecordDetails(recordId).pipe(
-            map(record => {
-              if (!record) {
-                throw new Error('The updated record could not be obtained.');
-              }
-              return {
-                success: true,
-                recordId: recordId,
-                amount: -amount,
-                stock: record.stock // Include updated stock
-              };
-            })
+            map(record => ({
+              success: true,
+              recordId: recordId,
+              amount: -amount,
+              stock: record?.stock // Include updated stock
+            }))
           );
         }),
         catchError((error) => {
+          const appError = AppError.from(error);
           console.error('[CartDetailService] Error removing from cart:', {
-            status: error.status,
-            statusText: error.statusText,
-            error: error.error,
-            url: error.url
+            kind: appError.kind,
+            status: appError.status,
+            message: appError.message,
+            url: appError.url
           });
           return throwError(() => error);
         })
       );
   }
 
-  addAmountCartDetail(detail: ICartDetail): Observable<ICartDetail> {
-    return this.http.put<ICartDetail>(
-      `${this.urlAPI}cartDetails/${detail.idCartDetail}`,
-      detail
-    );
-  }
-
-  updateRecordStock(recordId: number, change: number): Observable<IRecord> {
-    if (typeof change !== 'number' || isNaN(change)) {
-      return throwError(() => new Error('Invalid stock change value'));
-    }
-
-    return this.http
-      .put<any>(
-        `${this.urlAPI}records/${recordId}/updateStock/${change}`,
-        {},
-        { headers: this.getHeaders() }
-      )
-      .pipe(
-        tap((response) => {
-          const newStock = response?.newStock;
-          if (typeof newStock === 'number' && newStock >= 0) {
-            this.stockService.notifyStockUpdate(recordId, newStock);
-          } else {
-            throw new Error('Received invalid stock value from server');
-          }
-        }),
-        map(
-          (response) =>
-            ({
-              idRecord: recordId,
-              stock: response.newStock,
-              titleRecord: '',
-              yearOfPublication: null,
-              imageRecord: null,
-              photo: null,
-              price: 0,
-              discontinued: false,
-              groupId: null,
-              groupName: '',
-              nameGroup: '',
-            } as IRecord)
-        ),
-        catchError((error) => {
-          return throwError(
-            () => new Error('Failed to update stock. Please try again.')
-          );
-        })
-      );
-  }
-
   getHeaders(): HttpHeaders {
     const token = this.authGuard.getToken();
     const headers = new HttpHeaders({
@@ -309,60 +237,6 @@ export class CartDetailService {
     return headers;
   }
 
-  incrementQuantity(detail: ICartDetail): Observable<ICartDetail> {
-    const previousAmount = detail.amount;
-    detail.amount++;
-    return new Observable((observer) => {
-      this.addAmountCartDetail(detail).subscribe({
-        next: () => {
-          this.updateRecordStock(detail.recordId, -1).subscribe({
-            next: () => {
-              observer.next(detail);
-              observer.complete();
-            },
-            error: (err) => {
-              detail.amount = previousAmount;
-              observer.error(err);
-            },
-          });
-        },
-        error: (err) => {
-          detail.amount = previousAmount;
-          observer.error(err);
-        },
-      });
-    });
-  }
-
-  decrementQuantity(detail: ICartDetail): Observable<ICartDetail> {
-    if (detail.amount <= 1) {
-      // Do not allow quantities less than 1
-      return of(detail); // Return the detail without changes
-    }
-    const previousAmount = detail.amount;
-    detail.amount--;
-    return new Observable((observer) => {
-      this.addAmountCartDetail(detail).subscribe({
-        next: () => {
-          this.updateRecordStock(detail.recordId, 1).subscribe({
-            next: () => {
-              observer.next(detail);
-              observer.complete();
-            },
-            error: (err) => {
-              detail.amount = previousAmount;
-              observer.error(err);
-            },
-          });
-        },
-        error: (err) => {
-          detail.amount = previousAmount;
-          observer.error(err);
-        },
-      });
-    });
-  }
-
   getCartDetailsByEmail(email: string): Observable<ICartDetail[]> {
     const url = `${this.urlAPI}CartDetails/GetCartDetails/${encodeURIComponent(email)}`;
     const token = this.authGuard.getToken();
@@ -373,40 +247,22 @@ export class CartDetailService {
       'Authorization': `Bearer ${token}`
     });
     
-    return this.http.get<any>(url, { 
-      headers,
-      observe: 'response' // To see the full response headers
-    }).pipe(
-      tap(response => {
-      }),
-      map(response => {
-        // Handle different response formats
-        let data = response.body;
-        
-        if (Array.isArray(data)) {
-          return data as ICartDetail[];
-        } else if (data && Array.isArray(data.$values)) {
-          return data.$values as ICartDetail[];
-        } else if (data && typeof data === 'object') {
-          return [data] as ICartDetail[];
-        }
-        
-        return [];
-      }),
-      catchError((error: any) => {
+    return this.apiClient.getList(
+      'shoppingService',
+      `CartDetails/GetCartDetails/${encodeURIComponent(email)}`,
+      { headers, schema: cartDetailSchema }
+    ).pipe(
+      catchError((error: unknown) => {
+        const appError = AppError.from(error);
         console.error('[CartDetailService] Error in the request:', {
-          status: error.status,
-          statusText: error.statusText,
-          url: error.url || url,
-          error: error.error,
-          headers: error.headers ? Object.fromEntries(
-            Object.entries(error.headers)
-              .filter(([key]) => !key.toLowerCase().includes('authorization'))
-          ) : 'No headers'
+          kind: appError.kind,
+          status: appError.status,
+          message: appError.message,
+          url: appError.url || url
         });
         
         // If it is a 403 error, try the debug method
-        if (error.status === 403) {
+        if (appError.status === 403) {
           console.warn('[CartDetailService] Access attempt denied (403). Testing with debugging method...');
           return this.debugFetchCartDetails(email);
         }
@@ -454,18 +310,10 @@ export class CartDetailService {
       const data = await response.json();
       console.log('[CartDetailService][DEBUG] Response data:', data);
       
-      if (Array.isArray(data)) {
-        return data as ICartDetail[];
-      } else if (data && Array.isArray(data.$values)) {
-        return data.$values as ICartDetail[];
-      } else if (data && typeof data === 'object') {
-        return [data] as ICartDetail[];
-      }
-      
-      return [];
+      return toList<ICartDetail>(resolvePreserved(data));
     } catch (error) {
       console.error('[CartDetailService][DEBUG] Error in direct fetch:', error);
-      return [];
+      throw error;
     }
   }
 }
@@ -1,41 +1,83 @@
 import { Injectable, OnDestroy, inject } from '@angular/core';
-import { BehaviorSubject, Observable, of, Subject, throwError } from 'rxjs';
-import { catchError, tap, takeUntil } from 'rxjs/operators';
+import { toObservable } from '@angular/core/rxjs-interop';
+import { BehaviorSubject, EMPTY, Observable, defer, forkJoin, from, of, Subject, throwError } from 'rxjs';
+import { catchError, concatMap, defaultIfEmpty, filter, finalize, map, switchMap, take, tap, takeUntil, toArray } from 'rxjs/operators';
 import { UserService } from 'src/app/services/UserService';
-import { IRecord, ICart } from '../EcommerceInterface';
+import { IRecord, ICart, ICartDetail, ICartLine, ICartQuantityChange, IGuestCartConflict } from '../EcommerceInterface';
+import { cartSchema } from '../EcommerceSchemas';
 import { CartDetailService } from './CartDetailService';
+import { RecordsService } from './RecordsService';
 import { HttpClient, HttpHeaders } from '@angular/common/http';
-import { environment } from 'src/environments/environment';
+import { APP_CONFIG } from 'src/app/services/AppConfig';
+import { ApiClient } from 'src/app/services/ApiClient';
+import { AppError } from 'src/app/services/AppError';
 import { AuthGuard } from 'src/app/guards/AuthGuardService';
-import { StockService } from './StockService';
-import { CartEventsService } from '../../shared/services/CartEventsService';
+import { TabSyncService } from '../../shared/services/TabSyncService';
+import { NotificationService } from '../../shared/services/NotificationService';
+import { CartStore } from '../cart/CartStore';
+import {
+  ICartState,
+  addToCart,
+  cartLineOf,
+  cartLineOfDetail,
+  isPending,
+  loadLines,
+  removeFromCart,
+  resetCart,
+  restoreLine,
+  selectLine,
+  selectStock,
+  setPending,
+  setStock,
+} from '../cart/CartState';
+
+// Storage key of the cart of visitors who are not signed in
+const GUEST_CART_KEY = 'cart_guest';
+
+// Outcome of replaying a line of the guest cart; a failed line was not
+// refused for its stock (e.g. the service could not be reached)
+interface IGuestLineResult {
+  line: ICartLine;
+  conflict: IGuestCartConflict;
+  failed: boolean;
+}
 
+// Side effects of the cart: the shopping service, localStorage, the other tabs
+// and the messages to the user. The state itself, stock included, lives in the
+// CartStore; the observables below follow its signals
 @Injectable({
   providedIn: 'root',
 })
 export class CartService implements OnDestroy {
-  private readonly baseUrl = environment.apiUrl.shoppingService;
-  private cart: IRecord[] = [];
-  private cartSubject = new BehaviorSubject<IRecord[]>([]);
-  private cartItemCountSubject = new BehaviorSubject<number>(0);
-  readonly cartItemCount$ = this.cartItemCountSubject.asObservable();
-  readonly cart$ = this.cartSubject.asObservable();
-  private cartTotalSubject = new BehaviorSubject<number>(0);
-  readonly cartTotal$ = this.cartTotalSubject.asObservable();
+  private readonly baseUrl = inject(APP_CONFIG).apiUrl.shoppingService;
+  private readonly store = inject(CartStore);
+  readonly cart$ = toObservable(this.store.lines);
+  readonly cartItemCount$ = toObservable(this.store.count);
+  readonly cartTotal$ = toObservable(this.store.total);
+  // Records with a cart change waiting for the server
+  readonly pendingRecords$ = toObservable(this.store.pending);
   private readonly destroy$ = new Subject<void>();
   cartEnabledSubject = new BehaviorSubject<boolean>(true);
   readonly cartEnabled$ = this.cartEnabledSubject.asObservable();
+  // Email of the user whose cart was changed from another tab (null for a visitor)
+  private externalCartChangeSubject = new Subject<string | null>();
+  readonly externalCartChange$ = this.externalCartChangeSubject.asObservable();
+  // Lines of the visitor's cart that did not fit in the stock when merged on login
+  private guestCartConflictsSubject = new BehaviorSubject<IGuestCartConflict[]>([]);
+  readonly guestCartConflicts$ = this.guestCartConflictsSubject.asObservable();
 
   private readonly httpClient = inject(HttpClient);
+  private readonly apiClient = inject(ApiClient);
   private readonly authGuard = inject(AuthGuard);
   private readonly userService = inject(UserService);
   private readonly cartDetailService = inject(CartDetailService);
-  private readonly stockService = inject(StockService);
-  private readonly cartEvents = inject(CartEventsService);
+  private readonly recordsService = inject(RecordsService);
+  private readonly tabSync = inject(TabSyncService);
+  private readonly notifications = inject(NotificationService);
 
   constructor() {
     this.initializeCart();
-    this.setupCartResetListener();
+    this.setupTabSyncListener();
   }
 
   private initializeCart(): void {
@@ -49,18 +91,25 @@ export class CartService implements OnDestroy {
         if (email) {
           this.initializeCartForUser(email);
         } else {
-          this.resetCart();
+          this.loadGuestCart();
         }
       });
   }
 
   private initializeCartForUser(email: string): void {
+    // The cart filled before signing in goes into the account cart. The other
+    // tabs see the same login, so the first one to take the lines out of
+    // storage is the only one that merges them
+    const guestCart = this.authGuard.getRole() !== 'Admin' ? this.claimGuestCart() : [];
+    if (guestCart.length > 0) {
+      this.mergeGuestCart(email, guestCart);
+      return;
+    }
+
     // First we try to load from localStorage
     const savedCart = this.getCartForUser(email);
-    if (savedCart && savedCart.length > 0) {
-      this.cartSubject.next(savedCart);
-      this.cartItemCountSubject.next(savedCart.length);
-      this.calculateAndUpdateLocalTotal();
+    if (savedCart.length > 0) {
+      this.store.update((state) => loadLines(state, savedCart));
     }
 
     // Then we sync with the backend
@@ -68,38 +117,124 @@ export class CartService implements OnDestroy {
   }
 
   resetCart(): void {
-    this.cart = [];
-    this.cartSubject.next([]);
-    this.cartItemCountSubject.next(0);
-    this.cartTotalSubject.next(0);
-    // Clear local storage for the current user
-    const currentUser = this.userService.email;
-    if (currentUser) {
-      this.saveCartForUser(currentUser, []);
-    }
+    // Clear local storage for the current user (or visitor)
+    this.apply(resetCart);
   }
 
-  private setupCartResetListener(): void {
-    this.cartEvents.cartReset$.pipe(
-      takeUntil(this.destroy$)
-    ).subscribe(() => {
-      this.resetCart();
-    });
+  // Visitors keep their cart in the browser only
+  private loadGuestCart(): void {
+    const guestCart = this.getCartForUser(null);
+    this.store.update((state) => loadLines(state, guestCart));
   }
 
-  private updateCartState(cartItems: IRecord[]): void {
-    this.cartSubject.next(cartItems);
-    this.updateCartCount(cartItems);
-    this.calculateAndUpdateLocalTotal();
-    this.saveCartForUser(this.userService.email || '', cartItems);
+  private claimGuestCart(): ICartLine[] {
+    const guestCart = this.getCartForUser(null);
+    localStorage.removeItem(GUEST_CART_KEY);
+    return guestCart;
+  }
+
+  // Replays the visitor's lines in the account cart, one at a time. A line is
+  // capped to the stock left; the ones that did not fit are reported. The
+  // lines that failed for another reason go back to the guest cart, to be
+  // merged again on the next login
+  private mergeGuestCart(email: string, guestCart: ICartLine[]): void {
+    from(guestCart)
+      .pipe(
+        concatMap((line) => this.mergeGuestLine(email, line)),
+        toArray(),
+        takeUntil(this.destroy$)
+      )
+      .subscribe((results) => {
+        const failed = results.filter((result) => result.failed);
+        if (failed.length > 0) {
+          localStorage.setItem(GUEST_CART_KEY, JSON.stringify(failed.map((result) => result.line)));
+        }
+        this.syncCartWithBackend(email);
+
+        const conflicts = results
+          .filter((result) => !result.failed && result.conflict.added < result.conflict.requested)
+          .map((result) => result.conflict);
+        this.guestCartConflictsSubject.next(conflicts);
+        if (failed.length > 0) {
+          this.notifications.warn(
+            `${failed.length} of the records in your cart could not be added right now, they will be added on your next sign-in`,
+            'Cart merged'
+          );
+        }
+        if (conflicts.length > 0) {
+          this.notifications.warn(
+            `${conflicts.length} of the records in your cart are no longer available in the amount you chose`,
+            'Cart merged'
+          );
+        } else if (failed.length === 0) {
+          this.notifications.success('The records you chose are now in your cart', 'Cart merged');
+        }
+      });
   }
 
-  private shouldSyncCart(email: string | null): boolean {
-    // Check all necessary conditions
-    return (
-      !!email && this.cartEnabledSubject.value && this.authGuard.isLoggedIn()
+  private mergeGuestLine(email: string, line: ICartLine): Observable<IGuestLineResult> {
+    const result = (added: number, failed = false): IGuestLineResult => ({
+      line,
+      conflict: { recordId: line.recordId, titleRecord: line.titleRecord, requested: line.amount, added },
+      failed,
+    });
+
+    return this.recordsService.getRecordById(line.recordId).pipe(
+      // A record that no longer exists is out of stock for good
+      catchError((error) =>
+        AppError.from(error).kind === 'notFound' ? of(null) : throwError(() => error)
+      ),
+      switchMap((record) => {
+        // The stock may have changed since the visitor chose the record
+        const available = record && !record.discontinued ? record.stock : 0;
+        const amount = Math.min(line.amount, Math.max(0, available));
+        if (amount === 0) {
+          return of(result(0));
+        }
+        return this.cartDetailService.addToCartDetail(email, line.recordId, amount).pipe(
+          tap((response) => {
+            if (typeof response?.stock === 'number') {
+              this.store.update((state) => setStock(state, line.recordId, response.stock));
+            }
+          }),
+          map(() => result(amount)),
+          // The stock was taken meanwhile
+          catchError((error) =>
+            AppError.from(error).kind === 'conflict' ? of(result(0)) : throwError(() => error)
+          )
+        );
+      }),
+      catchError((error) => {
+        console.error(`[CartService] Error merging record ${line.recordId} into the cart:`, error);
+        return of(result(0, true));
+      })
     );
   }
+
+  dismissGuestCartConflicts(): void {
+    this.guestCartConflictsSubject.next([]);
+  }
+
+  private setupTabSyncListener(): void {
+    this.tabSync.messages$.pipe(
+      takeUntil(this.destroy$)
+    ).subscribe((message) => {
+      if (message.type !== 'cart' || message.email !== this.userService.email) {
+        return;
+      }
+      // The other tab already saved the cart, only reload it from storage
+      const savedCart = this.getCartForUser(message.email);
+      this.store.update((state) => loadLines(state, savedCart));
+      this.externalCartChangeSubject.next(message.email);
+    });
+  }
+
+  // Changes the state and keeps the copy of the current user (or visitor) in localStorage
+  private apply(reducer: (state: ICartState) => ICartState): void {
+    this.store.update(reducer);
+    this.saveCartForUser(this.userService.email, this.store.lines());
+  }
+
   syncCartWithBackend(email: string): void {
     
     if (!email || !this.authGuard.isLoggedIn()) {
@@ -108,231 +243,199 @@ export class CartService implements OnDestroy {
 
     // Skip cart sync for admin users
     if (this.authGuard.getRole() === 'Admin') {
-      this.cart = [];
-      this.updateCartState([]);
+      this.apply(resetCart);
       return;
     }
     
     this.cartDetailService
       .getCartDetails(email)
-      .pipe(
-        takeUntil(this.destroy$),
-        catchError(error => {
-          console.error('[CartService] Error syncing cart with backend:', error);
-          return of({ $values: [] });
-        })
-      )
+      .pipe(takeUntil(this.destroy$))
       .subscribe({
-        next: (response: any) => {
-          const cartDetails = response?.$values || [];
-          if (cartDetails.length === 0) {
-            this.updateCartState([]);
-            return;
-          }
-          
-          const updatedCart = cartDetails.map((detail: any) => ({
-            ...detail,
-            amount: Number(detail.amount) || 1,
-            inCart: true,
-            idRecord: detail.recordId,
-            price: Number(detail.price) || 0,
-            title: detail.titleRecord,
-            image: detail.imageRecord,
-            stock: detail.stock || 0,
-          }));
-          
-          // Calculate total items for the cart counter
-          const totalItems = updatedCart.reduce(
-            (total: number, item: any) => total + (Number(item.amount) || 0), 
-            0
-          );
-          
-          // Update the cart state with the new items
-          this.cart = updatedCart;
-          this.cartSubject.next(updatedCart);
-          this.cartItemCountSubject.next(totalItems);
-          this.calculateAndUpdateLocalTotal();
-          this.saveCartForUser(email, updatedCart);
+        next: (cartDetails: ICartDetail[]) => {
+          const lines = cartDetails.map((detail) => cartLineOfDetail(detail));
+          this.apply((state) => loadLines(state, lines));
           this.cartEnabledSubject.next(true);
         },
         error: (error) => {
+          const appError = AppError.from(error);
           console.error('[CartService] Error syncing cart with backend:', {
-            status: error.status,
-            message: error.message,
-            error: error.error
+            kind: appError.kind,
+            status: appError.status,
+            message: appError.message
           });
           
-          // If there's an error, try to load from local storage as fallback
+          // The cart is not emptied by a failed load, the copy in local storage is kept
           const savedCart = this.getCartForUser(email);
-          if (savedCart && savedCart.length > 0) {
-            this.updateCartState(savedCart);
-          } else {
-            this.updateCartState([]);
-          }
+          this.apply((state) => loadLines(state, savedCart));
         }
       });
   }
 
-  addToCart(record: IRecord): Observable<any> {
+  // The cart and the stock are updated at once; the record stays locked until
+  // the server answers, and a rejected change is rolled back
+  addToCart(record: IRecord, amount = 1): Observable<any> {
     const userEmail = this.userService.email;
-    if (!userEmail) return throwError(() => new Error('Unauthenticated user'));
-
-    // Get the current stock before adding
-    const currentStock = this.cartSubject.value.find(
-      item => item.idRecord === record.idRecord
-    )?.stock ?? record.stock;
-
-    return this.cartDetailService
-      .addToCartDetail(userEmail, record.idRecord, 1)
-      .pipe(
-        tap(() => {
-          // Get current cart
-          const currentCart = [...this.cartSubject.value];
-          let cartUpdated = false;
-
-          // Update the cart item
-          const existingItem = currentCart.find(
-            (item) => item.idRecord === record.idRecord
-          );
-          
-          if (existingItem) {
-            existingItem.amount = (existingItem.amount || 0) + 1;
-            // Update the stock by decrementing it by 1 when adding to cart
-            if (typeof currentStock === 'number') {
-              existingItem.stock = Math.max(0, currentStock - 1);
-              // Notify stock service of the update
-              this.stockService.updateStock(record.idRecord, existingItem.stock);
-            }
-            cartUpdated = true;
-          } else {
-            const newItem = {
-              ...record,
-              amount: 1,
-              inCart: true,
-              stock: typeof currentStock === 'number' ? Math.max(0, currentStock - 1) : 0,
-            };
-            currentCart.push(newItem);
-            cartUpdated = true;
-          }
-
-          if (cartUpdated) {
-            // Update cart state
-            this.cart = [...currentCart];
-            this.cartSubject.next(this.cart);
-            
-            // Update cart count
-            const itemCount = currentCart.reduce((sum, item) => sum + (item.amount || 0), 0);
-            this.cartItemCountSubject.next(itemCount);
-            
-            // Calculate and update total
-            const total = this.calculateCartTotal(currentCart);
-            this.cartTotalSubject.next(total);
-            
-            // Save to local storage
-            this.saveCartForUser(userEmail, currentCart);
-          }
-        }),
-        catchError((error) => {
-          console.error('Error adding to cart:', error);
-          return throwError(() => error);
-        })
-      );
+    // The record shown has the latest price and stock
+    const line = cartLineOf(record, 0);
+    if (!userEmail) return this.changeGuestLine(line, amount);
+    return this.changeLine(userEmail, line, amount);
   }
 
   removeFromCart(record: IRecord): Observable<any> {
     const userEmail = this.userService.email;
+    const line = selectLine(this.store.snapshot, record.idRecord);
+    if (!line) {
+      return EMPTY;
+    }
     if (!userEmail) {
-      return throwError(() => new Error('Unauthenticated user'));
+      return this.changeGuestLine(line, -1);
     }
-    
-    // Get the current stock before removal
-    const currentStock = this.cartSubject.value.find(
-      item => item.idRecord === record.idRecord
-    )?.stock;
+    return this.changeLine(userEmail, line, -1);
+  }
 
-    return this.cartDetailService
-      .removeFromCartDetail(userEmail, record.idRecord, 1)
-      .pipe(
-        tap(() => {
-          // Get current cart
-          const currentCart = this.cartSubject.value;
-          // Update the cart item
-          const existingItem = currentCart.find(
-            (item) => item.idRecord === record.idRecord
-          );
-          
-          if (existingItem) {
-            // Update the amount
-            existingItem.amount = Math.max(0, (existingItem.amount || 0) - 1);
-            
-            // Update the stock by incrementing it by 1 when removing from cart
-            if (typeof currentStock === 'number') {
-              existingItem.stock = currentStock + 1;
-              // Notify stock service of the update
-              this.stockService.updateStock(record.idRecord, existingItem.stock);
-            }
-            
-            // Remove item if amount reaches 0
-            if (existingItem.amount === 0) {
-              const index = currentCart.indexOf(existingItem);
-              if (index !== -1) {
-                currentCart.splice(index, 1);
-              }
-            }
-          }
-          
-          // Update cart state
-          this.updateCartState(currentCart);
-        }),
-        catchError((error) => {
-          console.error('Error removing from cart:', error);
-          return throwError(() => error);
-        })
-      );
+  // Sets the amount of several lines at once (0 removes the line). Each line
+  // changes straight away and goes to the server in one call with the whole
+  // difference; a rejected line is rolled back without stopping the others.
+  // A line with a change on its way is changed once that one is answered,
+  // from the amount it has then
+  updateQuantities(changes: ICartQuantityChange[]): Observable<unknown> {
+    const userEmail = this.userService.email;
+    const operations = changes.flatMap((change) => {
+      if (!selectLine(this.store.snapshot, change.recordId)) return [];
+      const operation = defer(() => {
+        const line = selectLine(this.store.snapshot, change.recordId);
+        const difference = change.amount - (line?.amount ?? 0);
+        if (!line || difference === 0) return of(null);
+        return userEmail ? this.changeLine(userEmail, line, difference) : this.changeGuestLine(line, difference);
+      });
+      return [
+        this.whenSettled(change.recordId).pipe(
+          switchMap(() => operation),
+          catchError(() => of(null)),
+          defaultIfEmpty(null)
+        ),
+      ];
+    });
+    return operations.length ? forkJoin(operations) : of([]);
   }
 
-  updateCartNavbar(itemCount: number, totalPrice: number): void {
-    this.cartItemCountSubject.next(itemCount);
-    this.cartTotalSubject.next(totalPrice);
+  // Removing the lines gives their stock back
+  clearCart(): Observable<unknown> {
+    return this.updateQuantities(this.store.lines().map((line) => ({ recordId: line.recordId, amount: 0 })));
   }
 
-  getCartForUser(email: string): IRecord[] {
-    const cartJson = localStorage.getItem(`cart_${email}`);
-    return cartJson ? JSON.parse(cartJson) : [];
+  isPending(recordId: number): boolean {
+    return isPending(this.store.snapshot, recordId);
   }
 
-  getCartItems(): Observable<IRecord[]> {
-    return this.cart$;
+  // Emits once the record has no change waiting for the server
+  private whenSettled(recordId: number): Observable<unknown> {
+    if (!this.isPending(recordId)) return of(null);
+    return this.pendingRecords$.pipe(
+      filter((pending) => !pending.has(recordId)),
+      take(1)
+    );
   }
 
-  saveCartForUser(email: string, cart: IRecord[]): void {
-    localStorage.setItem(`cart_${email}`, JSON.stringify(cart));
+  private changeLine(email: string, line: ICartLine, change: number): Observable<any> {
+    const recordId = line.recordId;
+    // A second click while the first change is in flight is ignored (the
+    // quantities typed in the cart wait for it, see updateQuantities)
+    if (this.isPending(recordId)) {
+      return EMPTY;
+    }
+
+    const previousLine = selectLine(this.store.snapshot, recordId);
+    const previousStock = selectStock(this.store.snapshot, recordId) ?? line.stock;
+    const stock = Math.max(0, previousStock - change);
+
+    this.store.update((state) => setPending(state, recordId, true));
+    this.apply((state) =>
+      setStock(change > 0 ? addToCart(state, line, change) : removeFromCart(state, recordId, -change), recordId, stock)
+    );
+
+    const request =
+      change > 0
+        ? this.cartDetailService.addToCartDetail(email, recordId, change)
+        : this.cartDetailService.removeFromCartDetail(email, recordId, -change);
+
+    return request.pipe(
+      tap((response) => {
+        // The cart endpoints answer with the stock left after the change
+        if (typeof response?.stock === 'number') {
+          this.store.update((state) => setStock(state, recordId, response.stock));
+        }
+      }),
+      catchError((error) => {
+        console.error(`[CartService] Cart change of record ${recordId} rejected:`, error);
+        this.apply((state) => setStock(restoreLine(state, recordId, previousLine), recordId, previousStock));
+        this.notifications.error(error, change > 0 ? 'Not added to the cart' : 'Not removed from the cart');
+        return throwError(() => error);
+      }),
+      finalize(() => {
+        this.store.update((state) => setPending(state, recordId, false));
+        // The server has the last word on the amounts, once no other change is on its way
+        if (this.store.snapshot.pending.length === 0) {
+          this.syncCartWithBackend(email);
+        }
+      })
+    );
   }
 
-  updateCartItem(record: IRecord): void {
-    const currentCart = this.cartSubject.value;
-    const index = currentCart.findIndex(
-      (item) => item.idRecord === record.idRecord
+  // The stock is not reserved for visitors, so a line cannot go over it. Answers
+  // with the stock of the record like the cart endpoints do
+  private changeGuestLine(line: ICartLine, change: number): Observable<{ stock: number }> {
+    const amount = (selectLine(this.store.snapshot, line.recordId)?.amount ?? 0) + change;
+    if (change > 0 && amount > line.stock) {
+      const error = new AppError('conflict', `Only ${line.stock} units of ${line.titleRecord} are in stock`);
+      this.notifications.error(error, 'Not added to the cart');
+      return throwError(() => error);
+    }
+
+    this.apply((state) =>
+      change > 0 ? addToCart(state, line, change) : removeFromCart(state, line.recordId, -change)
     );
+    return of({ stock: line.stock });
+  }
+
+  // Carts saved before the lines had their own type hold whole records
+  getCartForUser(email: string | null): ICartLine[] {
+    const cartJson = localStorage.getItem(this.cartKey(email));
+    const saved: (ICartLine | (IRecord & { amount?: number }))[] = cartJson ? JSON.parse(cartJson) : [];
+    return saved.map((item) => ('idRecord' in item ? cartLineOf(item, Number(item.amount) || 0) : item));
+  }
 
-    if (index !== -1) {
-      currentCart[index] = { ...record };
-      this.cartSubject.next([...currentCart]);
-      this.updateCartCount(currentCart);
-      this.calculateAndUpdateLocalTotal();
-      this.saveCartForUser(this.userService.email || '', currentCart);
+  getCartItems(): Observable<ICartLine[]> {
+    return this.cart$;
+  }
+
+  saveCartForUser(email: string | null, cart: ICartLine[]): void {
+    const key = this.cartKey(email);
+    const cartJson = JSON.stringify(cart);
+    // Unchanged carts are not written again so the tabs do not notify each other in a loop
+    if (localStorage.getItem(key) === cartJson) {
+      return;
     }
+    localStorage.setItem(key, cartJson);
+    this.tabSync.publish({ type: 'cart', email });
+  }
+
+  private cartKey(email: string | null): string {
+    return email ? `cart_${email}` : GUEST_CART_KEY;
   }
 
   getCart(email: string): Observable<ICart> {
-    const url = `${this.baseUrl}Carts/GetCartByEmail/${encodeURIComponent(email)}`;
     const headers = this.getHeaders();
-    return this.httpClient
-      .get<ICart>(url, { headers })
+    return this.apiClient
+      .get('shoppingService', `Carts/GetCartByEmail/${encodeURIComponent(email)}`, {
+        headers,
+        schema: cartSchema,
+      })
       .pipe(
+        // The caller tells a failed load apart from a user without a cart
         catchError((error) => {
           console.error('[CartService] Error getting cart:', error);
-          return of({} as ICart);
+          return throwError(() => error);
         })
       );
   }
@@ -364,8 +467,8 @@ export class CartService implements OnDestroy {
 
   getAllCarts(): Observable<ICart[]> {
     const headers = this.getHeaders();
-    return this.httpClient
-      .get<ICart[]>(`${this.baseUrl}Carts`, { headers })
+    return this.apiClient
+      .getList('shoppingService', 'Carts', { headers, schema: cartSchema })
       .pipe(
         catchError((error) => {
           console.error('Error getting all carts:', error);
@@ -379,15 +482,9 @@ export class CartService implements OnDestroy {
     return this.httpClient
       .post<ICart>(`${this.baseUrl}Carts/Disable/${email}`, {}, { headers })
       .pipe(
-        tap((disabledCart) => {
+        tap(() => {
           // Update local status immediately
-          const currentCart = this.cartSubject.value;
-          const updatedCart = currentCart.map((item) => ({
-            ...item,
-            price: 0,
-            amount: 0, 
-          }));
-          this.updateCartState(updatedCart);
+          this.apply(resetCart);
         }),
         catchError((error) => {
           console.error('Error disabling cart:', error);
@@ -407,36 +504,4 @@ export class CartService implements OnDestroy {
         })
       );
   }
-
-  private updateCartCount(cart: IRecord[]): void {
-    const totalItems = cart.reduce(
-      (total: number, item: IRecord) => total + (Number(item.amount) || 0),
-      0
-    );
-    
-    // Ensure we're in the Angular zone to trigger change detection
-    if (this.cartItemCountSubject.value !== totalItems) {
-      this.cartItemCountSubject.next(totalItems);
-    } 
-  }
-
-  private calculateAndUpdateLocalTotal(): void {
-    const total = this.calculateCartTotal(this.cart);
-    
-    if (this.cartTotalSubject.value !== total) {
-      this.cartTotalSubject.next(total);
-    } 
-  }
-
-  private calculateCartTotal(cart: IRecord[]): number {
-    return cart.reduce(
-      (sum: number, item: IRecord) => {
-        const price = Number(item.price) || 0;
-        const amount = Number(item.amount) || 0;
-        const itemTotal = price * amount;
-        return sum + itemTotal;
-      },
-      0
-    );
-  }
 }
@@ -0,0 +1,124 @@
+import { Injectable, inject } from '@angular/core';
+import { Observable, forkJoin, merge, of } from 'rxjs';
+import { catchError, map, shareReplay } from 'rxjs/operators';
+import { IGenre, IGroup, ISearchResults } from '../EcommerceInterface';
+import { GenresService } from './GenresService';
+import { GroupsService } from './GroupsService';
+import { RecordsService } from './RecordsService';
+import { searchItems } from 'src/app/shared/utils/TextSearch';
+
+const RECENT_SEARCHES_KEY = 'recentSearches';
+const MAX_RECENT_SEARCHES = 5;
+// Genres and groups edited by another admin show up after this long at most
+const CACHE_TTL_MS = 5 * 60 * 1000;
+
+interface ICachedList<T> {
+  list$: Observable<T[]>;
+  loadedAt: number;
+}
+
+// Search across genres, groups and records. Genres and groups are few and are
+// matched in the browser from a cached list, read again when it expires or
+// when this admin changes them; records go through the bounded search of
+// RecordsService, with the same matching
+@Injectable({
+  providedIn: 'root',
+})
+export class CatalogSearchService {
+  private readonly genresService = inject(GenresService);
+  private readonly groupsService = inject(GroupsService);
+  private readonly recordsService = inject(RecordsService);
+
+  private genres: ICachedList<IGenre> | null = null;
+  private groups: ICachedList<IGroup> | null = null;
+
+  constructor() {
+    merge(this.genresService.changed$, this.groupsService.changed$).subscribe(() => {
+      this.genres = null;
+      this.groups = null;
+    });
+  }
+
+  search(term: string, limit: number): Observable<ISearchResults> {
+    if (!term.trim()) {
+      return of({ term, genres: [], groups: [], records: [], totalRecords: 0 });
+    }
+
+    return forkJoin({
+      genres: this.cachedGenres(),
+      groups: this.cachedGroups(),
+      page: this.recordsService.searchRecordsPage({ page: 1, pageSize: limit, search: term.trim() }),
+    }).pipe(
+      map(({ genres, groups, page }) => ({
+        term,
+        genres: searchItems(genres, term, [{ value: (genre) => genre.nameMusicGenre, weight: 1 }]).slice(0, limit),
+        groups: searchItems(groups, term, [{ value: (group) => group.nameGroup, weight: 1 }]).slice(0, limit),
+        records: page.items,
+        totalRecords: page.totalCount,
+      }))
+    );
+  }
+
+  recentSearches(): string[] {
+    try {
+      const stored = JSON.parse(localStorage.getItem(RECENT_SEARCHES_KEY) ?? '[]');
+      return Array.isArray(stored) ? stored.filter((term) => typeof term === 'string') : [];
+    } catch {
+      return [];
+    }
+  }
+
+  rememberSearch(term: string): void {
+    const trimmed = term.trim();
+    if (!trimmed) return;
+    const recent = this.recentSearches().filter((item) => item.toLowerCase() !== trimmed.toLowerCase());
+    localStorage.setItem(RECENT_SEARCHES_KEY, JSON.stringify([trimmed, ...recent].slice(0, MAX_RECENT_SEARCHES)));
+  }
+
+  clearRecentSearches(): void {
+    localStorage.removeItem(RECENT_SEARCHES_KEY);
+  }
+
+  // A failed load is not cached, the next search tries again
+  private cachedGenres(): Observable<IGenre[]> {
+    if (this.isFresh(this.genres)) {
+      return this.genres.list$;
+    }
+    const genres: ICachedList<IGenre> = {
+      list$: this.genresService.getGenres().pipe(
+        catchError((error) => {
+          console.error('[CatalogSearchService] Error loading genres:', error);
+          if (this.genres === genres) this.genres = null;
+          return of([]);
+        }),
+        shareReplay(1)
+      ),
+      loadedAt: Date.now(),
+    };
+    this.genres = genres;
+    return genres.list$;
+  }
+
+  private cachedGroups(): Observable<IGroup[]> {
+    if (this.isFresh(this.groups)) {
+      return this.groups.list$;
+    }
+    const groups: ICachedList<IGroup> = {
+      list$: this.groupsService.getGroups().pipe(
+        catchError((error) => {
+          console.error('[CatalogSearchService] Error loading groups:', error);
+          if (this.groups === groups) this.groups = null;
+          return of([]);
+        }),
+        shareReplay(1)
+      ),
+      loadedAt: Date.now(),
+    };
+    this.groups = groups;
+    return groups.list$;
+  }
+
+  private isFresh<T>(cache: ICachedList<T> | null): cache is ICachedList<T> {
+    return !!cache && Date.now() - cache.loadedAt < CACHE_TTL_MS;
+  }
+}
@@ -1,30 +1,40 @@
 import { Injectable, inject } from '@angular/core';
 import { HttpClient, HttpHeaders } from '@angular/common/http';
-import { Observable } from 'rxjs';
-import { environment } from 'src/environments/environment';
+import { Observable, Subject } from 'rxjs';
+import { tap } from 'rxjs/operators';
+import { APP_CONFIG } from 'src/app/services/AppConfig';
 import { AuthGuard } from 'src/app/guards/AuthGuardService';
+import { ApiClient } from 'src/app/services/ApiClient';
 import { IGenre } from '../EcommerceInterface';
+import { genreSchema } from '../EcommerceSchemas';
 
 @Injectable({
   providedIn: 'root',
 })
 export class GenresService {
-  private readonly baseUrl = environment.apiUrl.cdService;
+  private readonly baseUrl = inject(APP_CONFIG).apiUrl.cdService;
   private readonly http = inject(HttpClient);
+  private readonly apiClient = inject(ApiClient);
   private readonly authGuard = inject(AuthGuard);
+  private readonly changedSubject = new Subject<void>();
+  // Emits after a genre is added, updated or deleted
+  readonly changed$ = this.changedSubject.asObservable();
 
   getGenres(): Observable<IGenre[]> {
     const headers = this.getHeaders();
-    return this.http.get<IGenre[]>(`${this.baseUrl}musicGenres`, {
+    return this.apiClient.getList('cdService', 'musicGenres', {
       headers,
+      schema: genreSchema,
     });
   }
 
   addGenre(genre: IGenre): Observable<IGenre> {
     const headers = this.getHeaders();
-    return this.http.post<IGenre>(`${this.baseUrl}musicGenres`, genre, {
-      headers,
-    });
+    return this.http
+      .post<IGenre>(`${this.baseUrl}musicGenres`, genre, {
+        headers,
+      })
+      .pipe(tap(() => this.changedSubject.next()));
   }
 
   updateGenre(Genre: IGenre): Observable<IGenre> {
@@ -35,14 +45,16 @@ export class GenresService {
       {
         headers,
       }
-    );
+    ).pipe(tap(() => this.changedSubject.next()));
   }
 
   deleteGenre(id: number): Observable<IGenre> {
     const headers = this.getHeaders();
-    return this.http.delete<IGenre>(`${this.baseUrl}musicGenres/${id}`, {
-      headers,
-    });
+    return this.http
+      .delete<IGenre>(`${this.baseUrl}musicGenres/${id}`, {
+        headers,
+      })
+      .pipe(tap(() => this.changedSubject.next()));
   }
 
   getHeaders(): HttpHeaders {
@@ -1,18 +1,25 @@
 import { Injectable, inject } from '@angular/core';
-import { HttpClient, HttpErrorResponse, HttpHeaders, HttpParams } from '@angular/common/http';
-import { Observable, catchError, of, throwError } from 'rxjs';
+import { HttpClient, HttpHeaders, HttpParams } from '@angular/common/http';
+import { Observable, Subject, catchError, throwError } from 'rxjs';
 import { map, tap } from 'rxjs/operators';
-import { environment } from 'src/environments/environment';
+import { APP_CONFIG } from 'src/app/services/AppConfig';
+import { ApiClient, toList } from 'src/app/services/ApiClient';
 import { AuthGuard } from 'src/app/guards/AuthGuardService';
+import { AppError } from 'src/app/services/AppError';
 import { IGroup } from '../EcommerceInterface';
+import { groupSchema } from '../EcommerceSchemas';
 
 @Injectable({
   providedIn: 'root',
 })
 export class GroupsService {
-  private readonly baseUrl = environment.apiUrl.cdService;
+  private readonly baseUrl = inject(APP_CONFIG).apiUrl.cdService;
   private readonly http = inject(HttpClient);
+  private readonly apiClient = inject(ApiClient);
   private readonly authGuard = inject(AuthGuard);
+  private readonly changedSubject = new Subject<void>();
+  // Emits after a group is added, updated or deleted
+  readonly changed$ = this.changedSubject.asObservable();
 
   private getHeaders(contentType: string = 'application/json'): HttpHeaders {
     const token = this.authGuard.getToken();
@@ -33,34 +40,13 @@ export class GroupsService {
   getGroups(): Observable<IGroup[]> {
     const headers = this.getHeaders();
 
-    return this.http
-      .get<any>(`${this.baseUrl}groups`, { headers })
+    return this.apiClient
+      .getList('cdService', 'groups', { headers, schema: groupSchema })
       .pipe(
-        map((response) => {
-          // Handle different response formats
-          let groups: any[] = [];
-
-          if (Array.isArray(response)) {
-            // If the response is already an array
-            groups = response;
-          } else if (response && typeof response === 'object') {
-            // If the response is an object with a $values property (common in .NET Core)
-            if (response.hasOwnProperty('$values')) {
-              groups = response.$values || [];
-            } else if (response.hasOwnProperty('data')) {
-              // If the response has a data property (common in some APIs)
-              groups = response.data || [];
-            } else {
-              // If it's an object but not in the expected format, try to convert it to an array
-              groups = Object.values(response);
-            }
-          }
-
-          return groups as IGroup[];
-        }),
-        catchError((error: any) => {
+        catchError((error: unknown) => {
+          // The caller tells a failed load apart from an empty catalog
           console.error('Error in getGroups:', error);
-          return of([]); // Return empty array on error to prevent breaking the subscription
+          return throwError(() => error);
         })
       );
   }
@@ -106,36 +92,17 @@ export class GroupsService {
       formData,
       httpOptions
     ).pipe(
-      catchError((error: HttpErrorResponse) => {
-        let errorMessage = 'Error creating group';
-        
-        // Extract error message from server if available
-        if (error.error?.errors) {
-          // Handling ModelState validation errors
-          const validationErrors = Object.entries(error.error.errors)
-            .map(([field, errors]) => `${field}: ${Array.isArray(errors) ? errors.join(', ') : String(errors)}`)
-            .join('; ');
-          errorMessage = `Validation error: ${validationErrors}`;
-        } else if (error.error) {
-          // Handling other types of server errors
-          const serverError = error.error;
-          if (typeof serverError === 'object') {
-            errorMessage = serverError.title || serverError.message || 
-                         (serverError.error ? String(serverError.error) : 'Unknown server error');
-          } else if (typeof serverError === 'string') {
-            errorMessage = serverError;
-          }
-        }
-
+      tap(() => this.changedSubject.next()),
+      catchError((error: AppError) => {
+        // The validation errors stay in error.fieldErrors for the form
         console.error('[GroupsService] Error creating group:', {
           status: error.status,
-          error: error.error,
+          kind: error.kind,
           message: error.message,
           url: error.url,
-          errorDetails: errorMessage
+          fieldErrors: error.fieldErrors
         });
-        
-        return throwError(() => new Error(errorMessage));
+        return throwError(() => error);
       })
     );
   }
@@ -175,36 +142,17 @@ export class GroupsService {
         reportProgress: true
       }
     ).pipe(
-      catchError((error: HttpErrorResponse) => {
-        let errorMessage = 'Error updating group';
-        
-        // Extract error message from server if available
-        if (error.error?.errors) {
-          // Handling ModelState validation errors
-          const validationErrors = Object.entries(error.error.errors)
-            .map(([field, errors]) => `${field}: ${Array.isArray(errors) ? errors.join(', ') : String(errors)}`)
-            .join('; ');
-          errorMessage = `Validation error: ${validationErrors}`;
-        } else if (error.error) {
-          // Handling other types of server errors
-          const serverError = error.error;
-          if (typeof serverError === 'object') {
-            errorMessage = serverError.title || serverError.message || 
-                         (serverError.error ? String(serverError.error) : 'Error desconocido del servidor');
-          } else if (typeof serverError === 'string') {
-            errorMessage = serverError;
-          }
-        }
-
+      tap(() => this.changedSubject.next()),
+      catchError((error: AppError) => {
+        // The validation errors stay in error.fieldErrors for the form
         console.error('[GroupsService] Error updating group:', {
           status: error.status,
-          error: error.error,
+          kind: error.kind,
           message: error.message,
           url: error.url,
-          errorDetails: errorMessage
+          fieldErrors: error.fieldErrors
         });
-        
-        return throwError(() => new Error(errorMessage));
+        return throwError(() => error);
       })
     );
   }
@@ -212,46 +160,18 @@ export class GroupsService {
 
   deleteGroup(id: number): Observable<IGroup> {
     const headers = this.getHeaders();
-    return this.http.delete<IGroup>(`${this.baseUrl}groups/${id}`, {
-      headers,
-    });
+    return this.http
+      .delete<IGroup>(`${this.baseUrl}groups/${id}`, {
+        headers,
+      })
+      .pipe(tap(() => this.changedSubject.next()));
   }
 
-  getGroupName(idGroup: string | number): Observable<string> {
+  // The endpoint answers with the group or with a list holding it
+  getGroup(idGroup: string | number): Observable<IGroup | null> {
     const headers = this.getHeaders();
-    return this.http
-      .get<any>(`${this.baseUrl}groups/${idGroup}`, { headers })
-      .pipe(
-        map((response) => {
-
-          // Handle direct group object
-          if (
-            response &&
-            typeof response === 'object' &&
-            'nameGroup' in response
-          ) {
-            return response.nameGroup;
-          }
-
-          // Handle $values wrapper
-          if (
-            response &&
-            response.$values &&
-            typeof response.$values === 'object'
-          ) {
-            if (
-              Array.isArray(response.$values) &&
-              response.$values.length > 0
-            ) {
-              return response.$values[0].nameGroup || '';
-            }
-            if ('nameGroup' in response.$values) {
-              return response.$values.nameGroup;
-            }
-          }
-
-          return '';
-        })
-      );
+    return this.apiClient
+      .get<IGroup | IGroup[] | null>('cdService', `groups/${idGroup}`, { headers })
+      .pipe(map((response) => toList<IGroup>(response)[0] ?? null));
   }
 }
@@ -1,80 +1,158 @@
 import { Injectable, inject } from "@angular/core";
 import { HttpClient, HttpHeaders, HttpParams } from "@angular/common/http";
-import { Observable, tap, map, catchError, throwError, of, switchMap } from "rxjs";
-import { environment } from "src/environments/environment";
+import { EMPTY, Observable, tap, map, catchError, throwError, of, switchMap, expand, reduce, shareReplay } from "rxjs";
+import { APP_CONFIG } from "src/app/services/AppConfig";
+import { ApiClient, toList } from "src/app/services/ApiClient";
 import { AuthGuard } from "src/app/guards/AuthGuardService";
-import { IRecord } from "../EcommerceInterface";
-import { StockService } from "./StockService";
+import {
+  ContractDiagnosticsService,
+  ContractViolationError,
+} from "src/app/services/ContractDiagnosticsService";
+import { arrayOf } from "src/app/services/Schema";
+import { IGroupRecords, IRecord, IRecordQuery, IRecordSearchPage } from "../EcommerceInterface";
+import { IPagedResult } from "src/app/interfaces/PagingInterface";
+import { groupSchema, recordSchema } from "../EcommerceSchemas";
+import { CartStore } from "../cart/CartStore";
+import { selectStock } from "../cart/CartState";
+import { GroupsService } from "./GroupsService";
+import { searchItems } from "src/app/shared/utils/TextSearch";
+import { RECORD_SEARCH_FIELDS } from "../catalog/CatalogFacets";
 
-@Injectable({
+// A search reads at most this many records of the group, the genre or the
+// catalog and matches them in the browser; past it the page says it was cut
+export const SEARCH_MAX_RECORDS = 2000;
+const SEARCH_PAGE_SIZE = 500;
+// The records read for a search are kept this long, so that each keystroke
+// does not read them again; saving or deleting a record drops them
+const SEARCH_CACHE_TTL_MS = 60 * 1000;
+
+interface ISearchCache {
+  records$: Observable<IPagedResult<IRecord>>;
+  loadedAt: number;
+}
+({
   providedIn: "root",
 })
 export class RecordsService {
-  private readonly baseUrl = environment.apiUrl.cdService;
+  private readonly baseUrl = inject(APP_CONFIG).apiUrl.cdService;
   private readonly http = inject(HttpClient);
+  private readonly apiClient = inject(ApiClient);
   private readonly authGuard = inject(AuthGuard);
-  private readonly stockService = inject(StockService);
+  private readonly cartStore = inject(CartStore);
+  private readonly diagnostics = inject(ContractDiagnosticsService);
+  private readonly groupsService = inject(GroupsService);
+  // Records searched, by group and genre
+  private readonly searchCache = new Map<string, ISearchCache>();
 
   getRecords(): Observable<IRecord[]> {
     const headers = this.getHeaders();
-    return this.http.get<any>(`${this.baseUrl}records`, { headers }).pipe(
-      map((response) => {
-        // Handle different response formats
-        let records: any[] = [];
-        
-        if (Array.isArray(response)) {
-          // Case 1: Response is already an array
-          records = response;
-        } else if (response && typeof response === 'object') {
-          // Case 2: Response has $values property
-          if (Array.isArray(response.$values)) {
-            records = response.$values;
-          } 
-          // Case 3: Response is an object with records as direct properties
-          else if (Object.keys(response).length > 0) {
-            records = Object.values(response);
-          }
-        }
-        
-        // Process records and update stock service
-        return records.map(record => {
-          const stock = typeof record.stock === 'number' ? record.stock : 0;
-          // Update stock in the stock service
-          this.stockService.updateStock(record.idRecord, stock);
-          
-          return {
-            ...record,
-            stock: stock
-          };
-        });
-      }),
+    return this.apiClient.getList('cdService', 'records', { headers, schema: recordSchema }).pipe(
+      map((records) =>
+        records.map((record) => ({ ...record, stock: typeof record.stock === 'number' ? record.stock : 0 }))
+      ),
       tap((records) => {
         if (records.length > 0) {
-          records.forEach((record) => {
-            this.stockService.notifyStockUpdate(record.idRecord, record.stock || 0);
-          });
+          this.cartStore.updateStocks(records);
         } else {
           console.log('[RecordsService] No records found');
         }
       }),
       catchError((error) => {
-        console.error('[RecordsService] Error getting records:', {
-          error,
-          status: error.status,
-          statusText: error.statusText,
-          url: error.url,
-          message: error.message
-        });
-        return of([]);
+        console.error('[RecordsService] Error getting records:', error);
+        return throwError(() => error);
+      })
+    );
+  }
+
+  getRecordsPage(query: IRecordQuery): Observable<IPagedResult<IRecord>> {
+    let params = new HttpParams()
+      .set("page", query.page)
+      .set("pageSize", query.pageSize);
+    if (query.sortField) {
+      params = params
+        .set("sortField", query.sortField)
+        .set("sortDirection", query.sortDirection ?? "asc");
+    }
+    if (query.search) {
+      params = params.set("search", query.search);
+    }
+    if (query.groupId) {
+      params = params.set("groupId", query.groupId);
+    }
+    if (query.genreId) {
+      params = params.set("genreId", query.genreId);
+    }
+
+    return this.apiClient
+      .getPage("cdService", "records/paged", { headers: this.getHeaders(), params, schema: recordSchema })
+      .pipe(
+        tap((result) => this.cartStore.updateStocks(result.items)),
+        catchError((error) => {
+          console.error("[RecordsService] Error getting records page:", error);
+          return throwError(() => error);
+        })
+      );
+  }
+
+  // Reads the records of the group, the genre or the whole catalog a page at a
+  // time, up to limit records. totalCount is the size of the whole list, so
+  // the caller can tell when it was cut
+  getRecordsUpTo(
+    filter: Pick<IRecordQuery, "groupId" | "genreId">,
+    limit: number,
+    pageSize: number
+  ): Observable<IPagedResult<IRecord>> {
+    return this.getRecordsPage({ ...filter, page: 1, pageSize }).pipe(
+      expand((result, index) => {
+        const read = (index + 1) * pageSize;
+        return result.items.length === pageSize && read < limit
+          ? this.getRecordsPage({ ...filter, page: index + 2, pageSize })
+          : EMPTY;
+      }),
+      reduce(
+        (all, result) => ({ items: [...all.items, ...result.items], totalCount: result.totalCount }),
+        { items: [] as IRecord[], totalCount: 0 }
+      ),
+      map((all) => ({
+        items: all.items.slice(0, limit),
+        totalCount: Math.max(all.totalCount, all.items.length),
+      }))
+    );
+  }
+
+  // The server only finds the search as it is typed, so every search is
+  // matched here with TextSearch ("Motorhead" finds "Motörhead", "beatels"
+  // finds "Beatles") over the first SEARCH_MAX_RECORDS records of the group,
+  // the genre or the catalog, then sorted and paged like the server does.
+  // Without a search the server pages
+  searchRecordsPage(query: IRecordQuery): Observable<IRecordSearchPage> {
+    const search = query.search?.trim();
+    if (!search) {
+      return this.getRecordsPage(query).pipe(map((page) => ({ ...page, cut: false })));
+    }
+
+    return this.searchableRecords(query).pipe(
+      map(({ items, totalCount }) => {
+        // The stock may have changed since the records were read
+        const records = items.map((record) => ({
+          ...record,
+          stock: selectStock(this.cartStore.snapshot, record.idRecord) ?? record.stock,
+        }));
+        const found = sortRecords(searchItems(records, search, RECORD_SEARCH_FIELDS), query);
+        const start = (query.page - 1) * query.pageSize;
+        return {
+          items: found.slice(start, start + query.pageSize),
+          totalCount: found.length,
+          cut: totalCount > items.length,
+        };
       })
     );
   }
 
   getRecordById(id: number): Observable<IRecord> {
     const headers = this.getHeaders();
-    const url = `${this.baseUrl}records/${id}`;
     
-    return this.http.get<IRecord>(url, { headers }).pipe(
+    return this.apiClient.get("cdService", `records/${id}`, { headers, schema: recordSchema }).pipe(
       switchMap((record: IRecord) => {
         if (record.groupName || record.nameGroup) {
           console.log(`[RecordsService] Record ${id} already has group name:`, {
@@ -87,23 +165,19 @@ export class RecordsService {
         
         // If it doesn't have a group name but it does have a groupId, we search for the group
         if (record.groupId) {
-          const groupUrl = `${this.baseUrl}groups/${record.groupId}`;
-          return this.http.get<{nameGroup?: string; groupName?: string}>(groupUrl, { headers }).pipe(
-            map(groupResponse => {
-              const groupName = groupResponse?.nameGroup || groupResponse?.groupName || 'Sin grupo';
-              return {
-                ...record,
-                groupName: groupName,
-                nameGroup: groupName
-              } as IRecord;
-            }),
+          return this.apiClient.get("cdService", `groups/${record.groupId}`, { headers, schema: groupSchema }).pipe(
+            map((group) => ({
+              ...record,
+              groupName: group.nameGroup,
+              nameGroup: group.nameGroup
+            })),
             catchError(groupError => {
+              if (groupError instanceof ContractViolationError) {
+                return throwError(() => groupError);
+              }
+              // The record is still shown, without its group name
               console.error(`[RecordsService] Error getting group for record ${id}:`, groupError);
-              return of({
-                ...record,
-                groupName: 'Error cargando grupo',
-                nameGroup: 'Error cargando grupo'
-              } as IRecord);
+              return of(record);
             })
           );
         }
@@ -154,11 +228,9 @@ export class RecordsService {
       }
     ).pipe(
       tap((newRecord: IRecord) => {
+        this.searchCache.clear();
         if (newRecord && newRecord.idRecord !== undefined) {
-          this.stockService.notifyStockUpdate(
-            newRecord.idRecord,
-            newRecord.stock || 0
-          );
+          this.cartStore.updateStocks([{ idRecord: newRecord.idRecord, stock: newRecord.stock || 0 }]);
         }
       }),
       catchError((error: any) => {
@@ -192,138 +264,59 @@ export class RecordsService {
       formData.append("photo", record.photo);
     }
 
-    return this.http
-      .put<any>(`${this.baseUrl}records/${record.idRecord}`, formData, {
-        headers,
-      })
+    return this.apiClient
+      .put("cdService", `records/${record.idRecord}`, formData, { headers, schema: recordSchema })
       .pipe(
-        map((response) => {
-          const updatedRecord = response.$values || {};
-          return updatedRecord;
-        }),
-        tap((updatedRecord: IRecord) => {
-          this.stockService.notifyStockUpdate(
-            updatedRecord.idRecord,
-            updatedRecord.stock
-          );
+        tap((updatedRecord) => {
+          this.searchCache.clear();
+          this.cartStore.updateStocks([updatedRecord]);
         })
       );
   }
 
   deleteRecord(id: number): Observable<IRecord> {
     const headers = this.getHeaders();
-    return this.http
-      .delete<any>(`${this.baseUrl}records/${id}`, {
-        headers,
-      })
-      .pipe(
-        map((response) => {
-          const deletedRecord = response.$values || {};
-          return deletedRecord;
-        })
-      );
+    return this.apiClient
+      .delete("cdService", `records/${id}`, { headers, schema: recordSchema })
+      .pipe(tap(() => this.searchCache.clear()));
   }
 
   getRecordsByGroup(idGroup: string | number): Observable<IRecord[]> {
     const headers = this.getHeaders();
-    return this.http
-      .get<any>(`${this.baseUrl}groups/recordsByGroup/${idGroup}`, { headers })
+    return this.apiClient
+      .get<IRecord[] | IGroupRecords | IRecord | null>(
+        "cdService",
+        `groups/recordsByGroup/${idGroup}`,
+        { headers }
+      )
       .pipe(
         map((response) => {
-          let records: IRecord[];
-          let groupName = "";
-          // Handle direct record array response
-          if (Array.isArray(response)) {
-            records = response;
-          }
-          // Handle $values wrapper
-          else if (response && response.$values) {
-            records = response.$values;
-          }
-          // Handle records nested in group response
-          else if (
-            response &&
-            typeof response === "object" &&
-            response.records
-          ) {
-            if (Array.isArray(response.records)) {
-              records = response.records;
-            } else if (response.records.$values) {
-              records = response.records.$values;
-            } else if (typeof response.records === "object") {
-              records = Object.values(response.records).filter(
-                (val): val is IRecord => {
-                  if (!val || typeof val !== "object") return false;
-                  const v = val as any;
-                  return (
-                    typeof v.idRecord === "number" &&
-                    typeof v.titleRecord === "string" &&
-                    typeof v.stock === "number"
-                  );
-                }
-              );
-            } else {
-              records = [];
-            }
-          }
-          // Handle single record response
-          else if (
-            response &&
-            typeof response === "object" &&
-            "idRecord" in response
-          ) {
-            records = [response];
-          }
-          // Handle other object responses
-          else if (response && typeof response === "object") {
-            const values = Object.values(response);
-            records = values.filter((val): val is IRecord => {
-              if (!val || typeof val !== "object") return false;
-              const v = val as any;
-              return (
-                typeof v.idRecord === "number" &&
-                typeof v.titleRecord === "string" &&
-                typeof v.stock === "number"
-              );
-            });
-          }
-          // Default to empty array
-          else {
-            records = [];
-          }
-
-          // If the answer has the group name, save it.
-          if (response && response.nameGroup) {
-            groupName = response.nameGroup;
-          } else if (
-            response &&
-            typeof response === "object" &&
-            response.group &&
-            response.group.nameGroup
-          ) {
-            groupName = response.group.nameGroup;
-          }
+          // The endpoint answers with the records or with the group that contains them
+          const group = response && !Array.isArray(response) && "records" in response
+            ? response
+            : null;
+          const records = this.diagnostics.validate(
+            arrayOf(recordSchema),
+            toList<IRecord>(group ? group.records : response),
+            `GET groups/recordsByGroup/${idGroup}`
+          );
+          const groupName = group?.nameGroup || group?.group?.nameGroup || "";
 
           // Assign the group name to each record
           records.forEach((record) => {
-            record.groupName = groupName || "";
+            record.groupName = groupName;
           });
 
           return records;
         }),
         tap((records) => {
-          records.forEach((record) => {
-            if (record && record.idRecord && record.stock !== undefined) {
-              this.stockService.notifyStockUpdate(
-                record.idRecord,
-                record.stock
-              );
-            }
-          });
+          this.cartStore.updateStocks(
+            records.filter((record) => record && record.idRecord && record.stock !== undefined)
+          );
         }),
         catchError((error) => {
           console.error('[RecordsService] Error getting records by group:', error);
-          return of([]);
+          return throwError(() => error);
         })
       );
   }
@@ -339,10 +332,8 @@ export class RecordsService {
         { headers }
       )
       .pipe(
-        tap(() => {
-          console.log(`[RecordsService] Stock decremented for record ${idRecord}`);
-          this.stockService.notifyStockUpdate(idRecord, amount);
-        }),
+        tap(() => console.log(`[RecordsService] Stock decremented for record ${idRecord}`)),
+        switchMap((response) => this.refreshStock(idRecord).pipe(map(() => response))),
         catchError((error) => {
           console.error(`[RecordsService] Error decrementing stock for record ${idRecord}:`, error);
           return throwError(() => error);
@@ -361,10 +352,8 @@ export class RecordsService {
         { headers }
       )
       .pipe(
-        tap(() => {
-          console.log(`[RecordsService] Stock incremented for record ${idRecord}`);
-          this.stockService.notifyStockUpdate(idRecord, amount);
-        }),
+        tap(() => console.log(`[RecordsService] Stock incremented for record ${idRecord}`)),
+        switchMap((response) => this.refreshStock(idRecord).pipe(map(() => response))),
         catchError((error) => {
           console.error(`[RecordsService] Error incrementing stock for record ${idRecord}:`, error);
           return throwError(() => error);
@@ -372,6 +361,69 @@ export class RecordsService {
       );
   }
 
+  // The stock endpoint takes a change, not a level: the stock left is read
+  // again so that the pages and the alerts get the real level
+  private refreshStock(idRecord: number): Observable<unknown> {
+    return this.getRecordById(idRecord).pipe(
+      tap((record) => this.cartStore.updateStocks([record])),
+      catchError((error) => {
+        console.warn(`[RecordsService] Could not read the stock of record ${idRecord}:`, error);
+        return of(null);
+      })
+    );
+  }
+
+  // A failed read is not kept, the next search tries again
+  private searchableRecords(query: IRecordQuery): Observable<IPagedResult<IRecord>> {
+    const key = `${query.groupId ?? ""}|${query.genreId ?? ""}`;
+    const cached = this.searchCache.get(key);
+    if (cached && Date.now() - cached.loadedAt < SEARCH_CACHE_TTL_MS) {
+      return cached.records$;
+    }
+
+    const entry: ISearchCache = {
+      records$: this.getRecordsUpTo(
+        { groupId: query.groupId, genreId: query.genreId },
+        SEARCH_MAX_RECORDS,
+        SEARCH_PAGE_SIZE
+      ).pipe(
+        switchMap((page) => this.withGroupNames(page)),
+        catchError((error) => {
+          if (this.searchCache.get(key) === entry) this.searchCache.delete(key);
+          return throwError(() => error);
+        }),
+        shareReplay(1)
+      ),
+      loadedAt: Date.now(),
+    };
+    this.searchCache.set(key, entry);
+    return entry.records$;
+  }
+
+  // The paged endpoint may not join the group, and a search also matches the
+  // group name; without the groups list the records are searched as they are
+  private withGroupNames(page: IPagedResult<IRecord>): Observable<IPagedResult<IRecord>> {
+    if (page.items.every((record) => record.groupName)) {
+      return of(page);
+    }
+    return this.groupsService.getGroups().pipe(
+      map((groups) => {
+        const names = new Map(groups.map((group) => [group.idGroup, group.nameGroup]));
+        return {
+          ...page,
+          items: page.items.map((record) => {
+            const groupName = record.groupName || names.get(record.groupId ?? -1) || "";
+            return { ...record, groupName, nameGroup: groupName };
+          }),
+        };
+      }),
+      catchError((error) => {
+        console.warn("[RecordsService] Could not read the group names for the search:", error);
+        return of(page);
+      })
+    );
+  }
+
   private getHeaders(contentType: string = 'application/json'): HttpHeaders {
     const token = this.authGuard.getToken();
     const headers: { [key: string]: string } = {
@@ -388,3 +440,19 @@ export class RecordsService {
     return new HttpHeaders(headers);
   }
 }
+
+// Without a sort field the best matches come first
+function sortRecords(records: IRecord[], query: IRecordQuery): IRecord[] {
+  const field = query.sortField as keyof IRecord | undefined;
+  if (!field) return records;
+  const direction = query.sortDirection === "desc" ? -1 : 1;
+  return [...records].sort((a, b) => direction * compareValues(a[field], b[field]));
+}
+
+function compareValues(a: unknown, b: unknown): number {
+  if (a === b) return 0;
+  if (a === null || a === undefined) return -1;
+  if (b === null || b === undefined) return 1;
+  if (typeof a === "string" && typeof b === "string") return a.localeCompare(b);
+  return Number(a) - Number(b);
+}
@@ -0,0 +1,118 @@
+import { Injectable, OnDestroy, inject } from '@angular/core';
+import { BehaviorSubject, EMPTY, Observable, Subject } from 'rxjs';
+import { map, takeUntil, tap } from 'rxjs/operators';
+import { UserService } from 'src/app/services/UserService';
+import { ICartLine, IRecord, ISavedForLaterItem } from '../EcommerceInterface';
+import { CartStore } from '../cart/CartStore';
+import { selectLine } from '../cart/CartState';
+import { CartService } from './CartService';
+
+// Cart lines the customer is not ready to buy. Saving a line takes it out of
+// the cart, which releases its stock; moving it back adds it again, up to the
+// stock left. The shopping service has no endpoint for the list, so it is
+// kept per user in localStorage, in this browser only
+@Injectable({
+  providedIn: 'root',
+})
+export class SavedForLaterService implements OnDestroy {
+  private readonly itemsSubject = new BehaviorSubject<ISavedForLaterItem[]>([]);
+  readonly items$ = this.itemsSubject.asObservable();
+  private readonly destroy$ = new Subject<void>();
+
+  private readonly userService = inject(UserService);
+  private readonly cartService = inject(CartService);
+  private readonly cartStore = inject(CartStore);
+
+  constructor() {
+    this.userService.emailUser$
+      .pipe(
+        // Only customers have an account cart to set lines aside from
+        map((email) => (email && !this.userService.isAdmin() ? this.getSavedForUser(email) : [])),
+        takeUntil(this.destroy$)
+      )
+      .subscribe((items) => this.itemsSubject.next(items));
+  }
+
+  get items(): ISavedForLaterItem[] {
+    return this.itemsSubject.value;
+  }
+
+  // The line is saved first so that it cannot be lost; if the cart keeps it
+  // (the server rejected the removal) the list goes back to how it was
+  saveForLater(line: ICartLine): Observable<unknown> {
+    if (!selectLine(this.cartStore.snapshot, line.recordId)) return EMPTY;
+    const previous = this.items.find((item) => item.recordId === line.recordId);
+    this.update([
+      ...this.items.filter((item) => item.recordId !== line.recordId),
+      {
+        recordId: line.recordId,
+        titleRecord: line.titleRecord,
+        groupName: line.groupName,
+        imageRecord: line.imageRecord,
+        price: line.price,
+        amount: line.amount + (previous?.amount ?? 0),
+        savedAt: new Date().toISOString(),
+      },
+    ]);
+
+    return this.cartService.updateQuantities([{ recordId: line.recordId, amount: 0 }]).pipe(
+      tap(() => {
+        if (selectLine(this.cartStore.snapshot, line.recordId)) {
+          this.restore(line.recordId, previous);
+        }
+      })
+    );
+  }
+
+  // Only the amount the stock allows goes back to the cart, the rest stays saved
+  moveToCart(item: ISavedForLaterItem, record: IRecord): Observable<unknown> {
+    const amount = Math.min(item.amount, record.stock);
+    if (amount <= 0) return EMPTY;
+    return this.cartService.addToCart(record, amount).pipe(
+      tap(() => {
+        const current = this.items.find((saved) => saved.recordId === item.recordId);
+        this.restore(
+          item.recordId,
+          current && current.amount > amount ? { ...current, amount: current.amount - amount } : undefined
+        );
+      })
+    );
+  }
+
+  remove(recordId: number): void {
+    this.restore(recordId, undefined);
+  }
+
+  getSavedForUser(email: string): ISavedForLaterItem[] {
+    try {
+      const json = localStorage.getItem(`savedForLater_${email}`);
+      return json ? JSON.parse(json) : [];
+    } catch (error) {
+      console.error('[SavedForLaterService] Invalid stored list:', error);
+      return [];
+    }
+  }
+
+  saveForUser(email: string, items: ISavedForLaterItem[]): void {
+    localStorage.setItem(`savedForLater_${email}`, JSON.stringify(items));
+  }
+
+  // Replaces the saved entry of a record, or removes it
+  private restore(recordId: number, item: ISavedForLaterItem | undefined): void {
+    const items = this.items.filter((saved) => saved.recordId !== recordId);
+    this.update(item ? [...items, item] : items);
+  }
+
+  private update(items: ISavedForLaterItem[]): void {
+    this.itemsSubject.next(items);
+    const email = this.userService.email;
+    if (email) {
+      this.saveForUser(email, items);
+    }
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+}
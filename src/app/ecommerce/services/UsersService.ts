@@ -1,17 +1,20 @@
 import { Injectable, inject } from '@angular/core';
 import { HttpClient, HttpHeaders } from '@angular/common/http';
-import { catchError, map, Observable, of, tap } from 'rxjs';
+import { catchError, Observable, tap, throwError } from 'rxjs';
 import { IUser } from '../EcommerceInterface';
-import { environment } from 'src/environments/environment';
+import { userSchema } from '../EcommerceSchemas';
+import { APP_CONFIG } from 'src/app/services/AppConfig';
+import { ApiClient } from 'src/app/services/ApiClient';
 import { AuthGuard } from '../../guards/AuthGuardService';
 
 @Injectable({
   providedIn: 'root',
 })
 export class UsersService {
-  private readonly baseUrl = environment.apiUrl.userService;
+  private readonly baseUrl = inject(APP_CONFIG).apiUrl.userService;
 
   private readonly http = inject(HttpClient);
+  private readonly apiClient = inject(ApiClient);
   private readonly authGuard = inject(AuthGuard);
 
   private getHeaders(): HttpHeaders {
@@ -23,41 +26,15 @@ export class UsersService {
 
   getUsers(): Observable<IUser[]> {
     const headers = this.getHeaders();
-    return this.http.get<any>(`${this.baseUrl}Users`, { headers }).pipe(
-      map((response) => {
-        // Handle different response formats
-        let usersArray: any[] = [];
-        
-        if (Array.isArray(response)) {
-          // Case 1: Response is already an array of users
-          usersArray = response;
-        } else if (response && typeof response === 'object') {
-          // Case 2: Response has $values property
-          if (Array.isArray(response.$values)) {
-            usersArray = response.$values;
-          } 
-          // Case 3: Response is an object with users as direct properties
-          else if (Object.keys(response).length > 0) {
-            usersArray = Object.values(response);
-          }
-        }
-        
-        return usersArray as IUser[];
-      }),
+    return this.apiClient.getList('userService', 'Users', { headers, schema: userSchema }).pipe(
       tap(users => {
-        if (users.length > 0) {
-        } else {
+        if (users.length === 0) {
           console.warn('[UsersService] No users found in the response');
         }
       }),
       catchError((error) => {
-        console.error('[UsersService] Error fetching users:', {
-          status: error.status,
-          statusText: error.statusText,
-          url: error.url,
-          error: error.error
-        });
-        return of([]);
+        console.error('[UsersService] Error fetching users:', error);
+        return throwError(() => error);
       })
     );
   }
@@ -0,0 +1,174 @@
+import { Injectable, OnDestroy, inject } from '@angular/core';
+import { HttpHeaders } from '@angular/common/http';
+import { BehaviorSubject, Observable, Subject, of } from 'rxjs';
+import { catchError, map, switchMap, takeUntil, tap } from 'rxjs/operators';
+import { ApiClient } from 'src/app/services/ApiClient';
+import { AuthGuard } from 'src/app/guards/AuthGuardService';
+import { UserService } from 'src/app/services/UserService';
+import { IRecord, IWishlistItem } from '../EcommerceInterface';
+import { wishlistItemSchema } from '../EcommerceSchemas';
+import { CartService } from './CartService';
+
+// Storage key of the wishlist of anonymous visitors, merged into the account on login
+const GUEST_WISHLIST_KEY = 'wishlist_guest';
+
+// Records bookmarked by the customer, e.g. out of stock or for later.
+// The list lives in the shopping service, with a copy in localStorage that is
+// used when the service cannot be reached and for visitors who are not signed in
+@Injectable({
+  providedIn: 'root',
+})
+export class WishlistService implements OnDestroy {
+  private readonly itemsSubject = new BehaviorSubject<IWishlistItem[]>([]);
+  readonly items$ = this.itemsSubject.asObservable();
+  readonly count$ = this.items$.pipe(map((items) => items.length));
+  private readonly destroy$ = new Subject<void>();
+
+  private readonly apiClient = inject(ApiClient);
+  private readonly authGuard = inject(AuthGuard);
+  private readonly userService = inject(UserService);
+  private readonly cartService = inject(CartService);
+
+  constructor() {
+    this.userService.emailUser$
+      .pipe(
+        // Admins do not buy, so they have no wishlist
+        switchMap((email) => {
+          if (!email) return of(this.getWishlistForUser(null));
+          if (this.userService.isAdmin()) return of([]);
+          return this.loadForUser(email);
+        }),
+        takeUntil(this.destroy$)
+      )
+      .subscribe((items) => this.itemsSubject.next(items));
+  }
+
+  get items(): IWishlistItem[] {
+    return this.itemsSubject.value;
+  }
+
+  isInWishlist(recordId: number): boolean {
+    return this.items.some((item) => item.recordId === recordId);
+  }
+
+  toggle(record: IRecord): void {
+    if (this.isInWishlist(record.idRecord)) {
+      this.remove(record.idRecord);
+    } else {
+      this.add(record);
+    }
+  }
+
+  add(record: IRecord): void {
+    if (this.isInWishlist(record.idRecord)) return;
+    this.update([...this.items, this.toWishlistItem(record)]);
+  }
+
+  remove(recordId: number): void {
+    this.update(this.items.filter((item) => item.recordId !== recordId));
+  }
+
+  // The record leaves the wishlist only once it is in the cart
+  moveToCart(record: IRecord): Observable<unknown> {
+    return this.cartService.addToCart(record).pipe(tap(() => this.remove(record.idRecord)));
+  }
+
+  getWishlistForUser(email: string | null): IWishlistItem[] {
+    try {
+      const wishlistJson = localStorage.getItem(this.storageKey(email));
+      return wishlistJson ? JSON.parse(wishlistJson) : [];
+    } catch (error) {
+      console.error('[WishlistService] Invalid stored wishlist:', error);
+      return [];
+    }
+  }
+
+  // Until the service has the list, the stored copy is marked as unsynced
+  saveWishlistForUser(email: string | null, items: IWishlistItem[]): void {
+    localStorage.setItem(this.storageKey(email), JSON.stringify(items));
+    if (!email) return;
+
+    localStorage.setItem(this.unsyncedKey(email), 'true');
+    this.apiClient
+      .put<unknown>('shoppingService', `Wishlists/${encodeURIComponent(email)}`, items, {
+        headers: this.getHeaders(),
+      })
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: () => localStorage.removeItem(this.unsyncedKey(email)),
+        // The copy in localStorage is sent again with the next change or login
+        error: (error) => console.warn('[WishlistService] Wishlist kept locally, the service failed:', error),
+      });
+  }
+
+  private update(items: IWishlistItem[]): void {
+    this.itemsSubject.next(items);
+    this.saveWishlistForUser(this.userService.email, items);
+  }
+
+  // The service has the list of the account, unless the last change could not
+  // be sent: then the stored copy is newer and is sent again. The records saved
+  // before signing in are added to it and then forgotten
+  private loadForUser(email: string): Observable<IWishlistItem[]> {
+    return this.apiClient
+      .getList('shoppingService', `Wishlists/${encodeURIComponent(email)}`, {
+        headers: this.getHeaders(),
+        schema: wishlistItemSchema,
+      })
+      .pipe(
+        catchError((error) => {
+          console.warn('[WishlistService] Using the stored wishlist, the service failed:', error);
+          return of(this.getWishlistForUser(email));
+        }),
+        map((serverItems) => {
+          const unsynced = localStorage.getItem(this.unsyncedKey(email)) !== null;
+          const items = unsynced ? this.getWishlistForUser(email) : serverItems;
+          const merged = this.merge(items, this.getWishlistForUser(null));
+          localStorage.removeItem(GUEST_WISHLIST_KEY);
+          if (unsynced || merged.length > items.length) {
+            // Only unsent changes and the merge change the list of the account
+            this.saveWishlistForUser(email, merged);
+          } else {
+            localStorage.setItem(this.storageKey(email), JSON.stringify(merged));
+          }
+          return merged;
+        })
+      );
+  }
+
+  private merge(items: IWishlistItem[], added: IWishlistItem[]): IWishlistItem[] {
+    const ids = new Set(items.map((item) => item.recordId));
+    return [...items, ...added.filter((item) => !ids.has(item.recordId))];
+  }
+
+  private toWishlistItem(record: IRecord): IWishlistItem {
+    return {
+      recordId: record.idRecord,
+      titleRecord: record.titleRecord,
+      groupName: record.groupName || record.nameGroup || '',
+      imageRecord: record.imageRecord,
+      price: record.price,
+      addedAt: new Date().toISOString(),
+    };
+  }
+
+  private storageKey(email: string | null): string {
+    return email ? `wishlist_${email}` : GUEST_WISHLIST_KEY;
+  }
+
+  private unsyncedKey(email: string): string {
+    return `wishlistUnsynced_${email}`;
+  }
+
+  private getHeaders(): HttpHeaders {
+    const token = this.authGuard.getToken();
+    return new HttpHeaders({
+      Authorization: `Bearer ${token}`,
+    });
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+}
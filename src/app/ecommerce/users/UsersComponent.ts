@@ -1,17 +1,21 @@
-import { Component, inject, afterNextRender, ChangeDetectionStrategy, ChangeDetectorRef } from "@angular/core";
+import { Component, inject, afterNextRender, ChangeDetectionStrategy, ChangeDetectorRef, DestroyRef } from "@angular/core";
 import { takeUntilDestroyed } from "@angular/core/rxjs-interop";
 import { CommonModule } from "@angular/common";
 import { FormsModule } from "@angular/forms";
 import { DomSanitizer, SafeHtml } from '@angular/platform-browser';
 import { IUser } from "../EcommerceInterface";
 import { UsersService } from "../services/UsersService";
-import { ConfirmationService, MessageService } from "primeng/api";
+import { ConfirmationService } from "primeng/api";
 import { TableModule } from 'primeng/table';
 import { ButtonModule } from 'primeng/button';
 import { ConfirmDialogModule } from 'primeng/confirmdialog';
-import { DialogModule } from 'primeng/dialog';
 import { InputTextModule } from 'primeng/inputtext';
 import { TooltipModule } from 'primeng/tooltip';
+import { AppError } from "src/app/services/AppError";
+import { LoadErrorComponent } from "src/app/shared/load-error/LoadErrorComponent";
+import { HighlightPipe } from "src/app/shared/pipes/HighlightPipe";
+import { NotificationService } from "src/app/shared/services/NotificationService";
+import { searchItems } from "src/app/shared/utils/TextSearch";
 
 @Component({
     selector: "app-users",
@@ -23,24 +27,26 @@ import { TooltipModule } from 'primeng/tooltip';
         TableModule,
         ButtonModule,
         ConfirmDialogModule,
-        DialogModule,
         InputTextModule,
-        TooltipModule
+        TooltipModule,
+        LoadErrorComponent,
+        HighlightPipe
     ]
 })
 export class UsersComponent {
   users: IUser[] = [];
   filteredUsers: IUser[] = [];
+  // Set when the list could not be loaded, as opposed to an empty list
+  loadError: string | null = null;
   loading = true;
   searchText = "";
-  errorMessage = "";
-  visibleError = false;
 
   private readonly usersService = inject(UsersService);
   private readonly confirmationService = inject(ConfirmationService);
-  private readonly messageService = inject(MessageService);
+  private readonly notifications = inject(NotificationService);
   private readonly sanitizer = inject(DomSanitizer);
   private readonly cdr = inject(ChangeDetectorRef);
+  private readonly destroyRef = inject(DestroyRef);
 
   constructor() {
     // Load users immediately in the constructor
@@ -49,9 +55,10 @@ export class UsersComponent {
 
   loadUsers(): void {
     this.loading = true;
+    this.loadError = null;
     this.cdr.markForCheck();
     this.usersService.getUsers().pipe(
-      takeUntilDestroyed()
+      takeUntilDestroyed(this.destroyRef)
     ).subscribe({
       next: (users) => {
         this.users = users;
@@ -61,8 +68,7 @@ export class UsersComponent {
       },
       error: (error) => {
         console.error("Error loading users:", error);
-        this.errorMessage = this.getErrorMessage(error);
-        this.visibleError = true;
+        this.loadError = AppError.from(error).message;
         this.users = [];
         this.filteredUsers = [];
         this.loading = false;
@@ -71,13 +77,6 @@ export class UsersComponent {
     });
   }
 
-  private getErrorMessage(error: any): string {
-    if (error.status === 401) {
-      return "You don't have permission to view users. Please log in as an administrator.";
-    }
-    return "Error loading users. Please try again..";
-  }
-
   confirmDelete(email: string): void {
     const message = this.sanitizer.bypassSecurityTrustHtml(
       `Are you sure you want to delete the user "${email}"?`
@@ -100,39 +99,25 @@ export class UsersComponent {
 
   deleteUser(email: string): void {
     this.usersService.deleteUser(email).pipe(
-      takeUntilDestroyed()
+      takeUntilDestroyed(this.destroyRef)
     ).subscribe({
       next: () => {
-        this.messageService.add({
-          severity: "success",
-          summary: "Success",
-          detail: "User successfully deleted",
-        });
+        this.notifications.success("User successfully deleted");
         this.loadUsers();
         this.cdr.markForCheck();
       },
       error: (error) => {
         console.error("Error deleting user:", error);
-        this.messageService.add({
-          severity: "error",
-          summary: "Error",
-          detail: "Error deleting user",
-        });
+        this.notifications.error(error, "Error deleting user");
         this.cdr.markForCheck();
       },
     });
   }
 
   onSearchChange(): void {
-    if (!this.searchText) {
-      this.filteredUsers = [...this.users];
-      this.cdr.markForCheck();
-      return;
-    }
-    const searchTerm = this.searchText.toLowerCase();
-    this.filteredUsers = this.users.filter((user) =>
-      user.email.toLowerCase().includes(searchTerm)
-    );
+    this.filteredUsers = searchItems(this.users, this.searchText, [
+      { value: (user) => user.email, weight: 1 },
+    ]);
     this.cdr.markForCheck();
   }
 
@@ -0,0 +1,35 @@
+import { Component, ChangeDetectionStrategy, computed, inject, input } from '@angular/core';
+import { toSignal } from '@angular/core/rxjs-interop';
+import { CommonModule } from '@angular/common';
+import { IRecord } from '../EcommerceInterface';
+import { WishlistService } from '../services/WishlistService';
+import { UserService } from 'src/app/services/UserService';
+
+// Heart that adds a record to the wishlist or takes it out; hidden for admins
+@Component({
+    selector: 'app-wishlist-button',
+    templateUrl: './WishlistButtonComponent.html',
+    changeDetection: ChangeDetectionStrategy.OnPush,
+    imports: [
+        CommonModule
+    ]
+})
+export class WishlistButtonComponent {
+  readonly record = input.required<IRecord>();
+
+  private readonly wishlistService = inject(WishlistService);
+  private readonly userService = inject(UserService);
+  private readonly items = toSignal(this.wishlistService.items$, { initialValue: [] });
+
+  readonly inWishlist = computed(() => this.items().some((item) => item.recordId === this.record().idRecord));
+
+  isAdmin(): boolean {
+    return this.userService.isAdmin();
+  }
+
+  toggle(event: Event): void {
+    // The heart sits inside rows and cards that may be links themselves
+    event.stopPropagation();
+    this.wishlistService.toggle(this.record());
+  }
+}
@@ -0,0 +1,94 @@
+import { Component, inject, ChangeDetectionStrategy, ChangeDetectorRef, DestroyRef } from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { CommonModule } from '@angular/common';
+import { RouterModule } from '@angular/router';
+import { ButtonModule } from 'primeng/button';
+import { finalize } from 'rxjs/operators';
+import { IWishlistItem } from '../EcommerceInterface';
+import { WishlistService } from '../services/WishlistService';
+import { CartService } from '../services/CartService';
+import { UserService } from 'src/app/services/UserService';
+import { AuthGuard } from 'src/app/guards/AuthGuardService';
+import { LoadErrorComponent } from 'src/app/shared/load-error/LoadErrorComponent';
+import { NotificationService } from 'src/app/shared/services/NotificationService';
+import { ISavedRecordEntry, SavedRecords } from '../savedrecords/SavedRecords';
+
+@Component({
+    selector: 'app-wishlist',
+    templateUrl: './WishlistComponent.html',
+    changeDetection: ChangeDetectionStrategy.OnPush,
+    imports: [
+        CommonModule,
+        RouterModule,
+        ButtonModule,
+        LoadErrorComponent
+    ]
+})
+export class WishlistComponent {
+  cartEnabled = false;
+  movingRecordId: number | null = null;
+
+  private readonly wishlistService = inject(WishlistService);
+  private readonly cartService = inject(CartService);
+  private readonly userService = inject(UserService);
+  private readonly authGuard = inject(AuthGuard);
+  private readonly notifications = inject(NotificationService);
+  private readonly cdr = inject(ChangeDetectorRef);
+  private readonly destroyRef = inject(DestroyRef);
+  readonly saved = new SavedRecords(this.wishlistService.items$);
+
+  constructor() {
+    this.saved.changes$.pipe(takeUntilDestroyed()).subscribe(() => this.cdr.markForCheck());
+
+    const email = this.userService.email;
+    if (email) {
+      this.cartService
+        .getCartStatus(email)
+        .pipe(takeUntilDestroyed())
+        .subscribe((status) => {
+          this.cartEnabled = status.enabled;
+          this.cdr.markForCheck();
+        });
+    }
+  }
+
+  isLoggedIn(): boolean {
+    return this.authGuard.isLoggedIn();
+  }
+
+  canMoveToCart(entry: ISavedRecordEntry<IWishlistItem>): boolean {
+    const record = entry.record;
+    return (
+      !!record &&
+      (!this.isLoggedIn() || this.cartEnabled) &&
+      !record.discontinued &&
+      record.stock > 0 &&
+      this.movingRecordId === null
+    );
+  }
+
+  moveToCart(entry: ISavedRecordEntry<IWishlistItem>): void {
+    if (!entry.record || !this.canMoveToCart(entry)) return;
+    this.movingRecordId = entry.record.idRecord;
+    this.cdr.markForCheck();
+
+    this.wishlistService
+      .moveToCart(entry.record)
+      .pipe(
+        takeUntilDestroyed(this.destroyRef),
+        finalize(() => {
+          this.movingRecordId = null;
+          this.cdr.markForCheck();
+        })
+      )
+      .subscribe({
+        next: () => this.notifications.success(`${entry.item.titleRecord} moved to the cart`),
+        // The cart service has already told the user why
+        error: (error) => console.error('Error moving to cart:', error),
+      });
+  }
+
+  remove(entry: ISavedRecordEntry<IWishlistItem>): void {
+    this.wishlistService.remove(entry.item.recordId);
+  }
+}
@@ -0,0 +1,63 @@
+import { inject } from '@angular/core';
+import { CanActivateFn, CanMatchFn, Router, UrlTree } from '@angular/router';
+import { AuthGuard } from './AuthGuardService';
+import { IRouteAccessData, RouteAccess } from '../interfaces/RouteAccessInterface';
+
+// Pure check shared by the guards and the navbar
+export function hasRouteAccess(
+  access: RouteAccess | undefined,
+  isLoggedIn: boolean,
+  role: string | null
+): boolean {
+  switch (access ?? 'public') {
+    case 'public':
+      return true;
+    case 'authenticated':
+      return isLoggedIn;
+    case 'Admin':
+      return isLoggedIn && role === 'Admin';
+    case 'customer':
+      return isLoggedIn && role !== 'Admin';
+  }
+}
+
+function checkRouteAccess(
+  data: IRouteAccessData | undefined,
+  url: string
+): boolean | UrlTree {
+  const authGuard = inject(AuthGuard);
+  const router = inject(Router);
+  const access = data?.access;
+
+  if (!access || access === 'public') {
+    return true;
+  }
+
+  // Anonymous visitors are sent to login and brought back afterwards
+  if (!authGuard.isLoggedIn()) {
+    return router.createUrlTree(['/login'], {
+      queryParams: { returnUrl: url },
+    });
+  }
+
+  if (hasRouteAccess(access, true, authGuard.getRole())) {
+    return true;
+  }
+
+  console.warn(`[RoleGuard] Access denied to ${url} (requires ${access})`);
+  return router.createUrlTree(['/forbidden']);
+}
+
+export const roleGuard: CanActivateFn = (route, state) =>
+  checkRouteAccess(route.data as IRouteAccessData, state.url);
+
+// Used on lazy routes so their chunks are not downloaded without access
+export const roleMatchGuard: CanMatchFn = (route, segments) => {
+  const router = inject(Router);
+  const navigation = router.getCurrentNavigation();
+  const url = navigation
+    ? router.serializeUrl(navigation.extractedUrl)
+    : '/' + segments.map((segment) => segment.path).join('/');
+
+  return checkRouteAccess(route.data as IRouteAccessData, url);
+};
@@ -1,87 +1,61 @@
 import { Injectable, inject } from '@angular/core';
-import { HttpRequest, HttpHandler, HttpEvent, HttpInterceptor, HttpErrorResponse, HttpHeaders } from '@angular/common/http';
+import { HttpRequest, HttpHandler, HttpEvent, HttpInterceptor, HttpErrorResponse } from '@angular/common/http';
 import { Observable, throwError } from 'rxjs';
-import { catchError } from 'rxjs/operators';
-import { Router } from '@angular/router';
-import { AuthGuard } from '../guards/AuthGuardService';
-import { jwtDecode } from 'jwt-decode';
+import { catchError, finalize, map, shareReplay, switchMap } from 'rxjs/operators';
+import { AuthSessionService } from '../services/AuthSessionService';
+import { UserService } from '../services/UserService';
+import { AppService } from '../services/AppService';
 
 @Injectable()
 export class AuthInterceptor implements HttpInterceptor {
-  private readonly authGuard = inject(AuthGuard);
-  private readonly router = inject(Router);
+  private readonly authSession = inject(AuthSessionService);
+  private readonly userService = inject(UserService);
+  private readonly appService = inject(AppService);
 
+  // Refresh the token this many seconds before it expires
+  private readonly refreshThresholdSeconds = 60;
+
+  // Refresh in flight, shared by every request that arrives meanwhile
+  private refreshInProgress$: Observable<string> | null = null;
 
   intercept(
     request: HttpRequest<any>,
     next: HttpHandler
   ): Observable<HttpEvent<any>> {
-    // Get the token from the storage
-    const token = this.authGuard.getToken();
-    
-    // Skip token validation for login/register endpoints
+    // Get the token from the session
+    const token = this.authSession.token();
+
+    // Skip token validation for login/register/refresh endpoints
     if (request.url.includes('/auth/')) {
       return next.handle(request);
     }
 
     // Validate token if it exists
     if (token) {
-      try {
-        const decodedToken: any = jwtDecode(token);
-        const currentTime = Date.now() / 1000;
-        
-        if (decodedToken.exp < currentTime) {
-          console.error('[AuthInterceptor] Token has expired');
-          this.router.navigate(['/login']);
-          return throwError(() => new Error('Token has expired'));
-        }
-
-        // Clone the request and add the authorization header
-        // Do not set Content-Type to allow the browser to set it automatically
-        // with the correct boundary for FormData
-        const headers: { [key: string]: string } = {
-          'Authorization': `Bearer ${token}`,
-          'Accept': 'application/json'
-        };
-
-        // Only add Content-Type if it is not a request with FormData
-        if (!(request.body instanceof FormData)) {
-          headers['Content-Type'] = 'application/json';
-        }
-
-        const authReq = request.clone({
-          setHeaders: headers,
-          withCredentials: false // Important to avoid problems with CORS
-        });
+      if (!this.authSession.claims()) {
+        console.error('[AuthInterceptor] Error processing token');
+        this.userService.expireSession();
+        return throwError(() => new Error('Invalid token'));
+      }
 
-        return next.handle(authReq).pipe(
-          catchError((error: HttpErrorResponse) => {
-            console.error(`[AuthInterceptor] Error ${error.status} for ${request.url}`, {
-              status: error.status,
-              statusText: error.statusText,
-              error: error.error
-            });
-
-            if (error.status === 401) {
-              console.log('[AuthInterceptor] Unauthorized - redirecting to login');
-              this.router.navigate(['/login']);
-            } else if (error.status === 403) {
-              console.error('[AuthInterceptor] Access denied (403)', {
-                url: request.url,
-                method: request.method,
-                error: error.error
-              });
-            }
+      const expiresAt = this.authSession.expiresAt();
+      const currentTime = Date.now() / 1000;
+      const expiresSoon = expiresAt !== null && expiresAt - this.refreshThresholdSeconds < currentTime;
 
-            return throwError(() => error);
-          })
+      if (expiresSoon && this.authSession.refreshToken()) {
+        // Refresh first, then send the request with the new token
+        return this.refreshAccessToken().pipe(
+          switchMap((newToken) => this.handleAuthorized(request, next, newToken, true))
         );
+      }
 
-      } catch (error) {
-        console.error('[AuthInterceptor] Error processing token:', error);
-        this.router.navigate(['/login']);
-        return throwError(() => error);
+      if (this.authSession.isExpired()) {
+        console.error('[AuthInterceptor] Token has expired');
+        this.userService.expireSession();
+        return throwError(() => new Error('Token has expired'));
       }
+
+      return this.handleAuthorized(request, next, token, false);
     }
 
     // If no token and not an auth endpoint, continue without token
@@ -92,4 +66,88 @@ export class AuthInterceptor implements HttpInterceptor {
       })
     );
   }
+
+  private handleAuthorized(
+    request: HttpRequest<any>,
+    next: HttpHandler,
+    token: string,
+    refreshed: boolean
+  ): Observable<HttpEvent<any>> {
+    return next.handle(this.addAuthHeaders(request, token)).pipe(
+      catchError((error: HttpErrorResponse) => {
+        console.error(`[AuthInterceptor] Error ${error.status} for ${request.url}`, {
+          status: error.status,
+          statusText: error.statusText,
+          error: error.error
+        });
+
+        if (error.status === 401) {
+          // Retry the original request once with a refreshed token
+          if (!refreshed && this.authSession.refreshToken()) {
+            console.log('[AuthInterceptor] Unauthorized - refreshing token and retrying');
+            return this.refreshAccessToken().pipe(
+              switchMap((newToken) => this.handleAuthorized(request, next, newToken, true))
+            );
+          }
+          console.log('[AuthInterceptor] Unauthorized - redirecting to login');
+          this.userService.expireSession();
+        } else if (error.status === 403) {
+          console.error('[AuthInterceptor] Access denied (403)', {
+            url: request.url,
+            method: request.method,
+            error: error.error
+          });
+        }
+
+        return throwError(() => error);
+      })
+    );
+  }
+
+  private addAuthHeaders(request: HttpRequest<any>, token: string): HttpRequest<any> {
+    // Clone the request and add the authorization header
+    // Do not set Content-Type to allow the browser to set it automatically
+    // with the correct boundary for FormData
+    const headers: { [key: string]: string } = {
+      'Authorization': `Bearer ${token}`,
+      'Accept': 'application/json'
+    };
+
+    // Only add Content-Type if it is not a request with FormData
+    if (!(request.body instanceof FormData)) {
+      headers['Content-Type'] = 'application/json';
+    }
+
+    return request.clone({
+      setHeaders: headers,
+      withCredentials: false // Important to avoid problems with CORS
+    });
+  }
+
+  private refreshAccessToken(): Observable<string> {
+    if (!this.refreshInProgress$) {
+      this.refreshInProgress$ = this.appService
+        .refresh({
+          token: this.authSession.token(),
+          refreshToken: this.authSession.refreshToken(),
+        })
+        .pipe(
+          map((response) => {
+            this.authSession.updateTokens(response.token, response.refreshToken);
+            return response.token;
+          }),
+          catchError((error) => {
+            // Only log the user out when the session can no longer be renewed
+            console.error('[AuthInterceptor] Token refresh failed - logging out', error);
+            this.userService.expireSession();
+            return throwError(() => error);
+          }),
+          finalize(() => {
+            this.refreshInProgress$ = null;
+          }),
+          shareReplay(1)
+        );
+    }
+    return this.refreshInProgress$;
+  }
 }
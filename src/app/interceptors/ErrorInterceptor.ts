@@ -0,0 +1,20 @@
+import { Injectable } from '@angular/core';
+import { HttpRequest, HttpHandler, HttpEvent, HttpInterceptor, HttpErrorResponse } from '@angular/common/http';
+import { Observable, throwError } from 'rxjs';
+import { catchError } from 'rxjs/operators';
+import { AppError } from '../services/AppError';
+
+// Registered before AuthInterceptor so that the token refresh still sees the raw 401
+@Injectable()
+export class ErrorInterceptor implements HttpInterceptor {
+  intercept(
+    request: HttpRequest<any>,
+    next: HttpHandler
+  ): Observable<HttpEvent<any>> {
+    return next.handle(request).pipe(
+      catchError((error: unknown) =>
+        throwError(() => (error instanceof HttpErrorResponse ? AppError.fromHttpError(error) : error))
+      )
+    );
+  }
+}
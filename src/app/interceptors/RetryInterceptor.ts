@@ -0,0 +1,68 @@
+import { Injectable, inject } from '@angular/core';
+import { HttpRequest, HttpHandler, HttpEvent, HttpInterceptor, HttpErrorResponse, HttpResponse } from '@angular/common/http';
+import { Observable, throwError, timer } from 'rxjs';
+import { catchError, retry, tap } from 'rxjs/operators';
+import { ConnectivityService } from '../shared/services/ConnectivityService';
+
+// Statuses worth another attempt: no response at all, timeouts and a gateway
+// or service that is restarting
+const TRANSIENT_STATUSES = [0, 408, 429, 502, 503, 504];
+
+// Retries failed GET requests with exponential backoff and jitter. Registered
+// after AuthInterceptor so that every attempt carries the current token
+@Injectable()
+export class RetryInterceptor implements HttpInterceptor {
+  private readonly connectivity = inject(ConnectivityService);
+
+  private readonly maxRetries = 3;
+  private readonly baseDelayMs = 500;
+  private readonly maxDelayMs = 5000;
+
+  intercept(
+    request: HttpRequest<any>,
+    next: HttpHandler
+  ): Observable<HttpEvent<any>> {
+    // Only idempotent requests are repeated
+    if (request.method !== 'GET') {
+      return next.handle(request);
+    }
+
+    return next.handle(request).pipe(
+      retry({
+        count: this.maxRetries,
+        delay: (error: unknown, retryCount: number) => {
+          if (!this.isTransient(error)) {
+            return throwError(() => error);
+          }
+          // Offline: wait for the connection instead of burning the attempts
+          if (!this.connectivity.online()) {
+            return this.connectivity.whenOnline();
+          }
+          return timer(this.backoffDelay(retryCount));
+        },
+      }),
+      tap((event) => {
+        if (event instanceof HttpResponse) {
+          this.connectivity.reportSuccess(request.url);
+        }
+      }),
+      catchError((error: unknown) => {
+        if (this.isTransient(error) && this.connectivity.online()) {
+          console.error(`[RetryInterceptor] ${request.url} unavailable after ${this.maxRetries} retries`);
+          this.connectivity.reportUnavailable(request.url);
+        }
+        return throwError(() => error);
+      })
+    );
+  }
+
+  private isTransient(error: unknown): boolean {
+    return error instanceof HttpErrorResponse && TRANSIENT_STATUSES.includes(error.status);
+  }
+
+  // Jittered so that the clients of a restarted service do not retry in lockstep
+  private backoffDelay(retryCount: number): number {
+    const exponential = Math.min(this.maxDelayMs, this.baseDelayMs * 2 ** (retryCount - 1));
+    return exponential / 2 + Math.random() * (exponential / 2);
+  }
+}
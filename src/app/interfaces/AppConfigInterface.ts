@@ -0,0 +1,10 @@
+export interface IApiUrls {
+  userService: string;
+  cdService: string;
+  shoppingService: string;
+}
+
+// Shape of assets/config.json, read when the application starts
+export interface IAppConfig {
+  apiUrl: IApiUrls;
+}
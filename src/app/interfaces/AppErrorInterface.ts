@@ -0,0 +1,24 @@
+// Error body returned by ASP.NET Core (RFC 7807), including ModelState validation
+export interface IProblemDetails {
+  type?: string;
+  title?: string;
+  status?: number;
+  detail?: string;
+  instance?: string;
+  errors?: Record<string, string[] | string>;
+  // Some controllers answer with { message } instead
+  message?: string;
+}
+
+export type AppErrorKind =
+  | 'network'
+  | 'validation'
+  | 'unauthorized'
+  | 'forbidden'
+  | 'notFound'
+  | 'conflict'
+  | 'server'
+  | 'unknown';
+
+// Validation messages by request field, as named by the backend
+export type FieldErrors = Record<string, string[]>;
@@ -0,0 +1,23 @@
+export interface IAuthSession {
+  email: string;
+  token: string;
+  role?: string;
+  refreshToken?: string;
+  name?: string;
+  // Kept in persistent storage so new tabs and restarts stay logged in
+  remember?: boolean;
+}
+
+export interface IAuthClaims {
+  exp?: number;
+  [claim: string]: unknown;
+}
+
+// Same shape as the Web Storage API so any backend can hold the session
+export interface IAuthStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
+
+export type AuthStorageType = 'session' | 'local' | 'memory';
@@ -0,0 +1,11 @@
+// A field of a backend response that does not match its DTO
+export interface IContractIssue {
+  path: string;
+  expected: string;
+  received: unknown;
+}
+
+export interface IContractViolation {
+  endpoint: string;
+  issues: IContractIssue[];
+}
@@ -8,4 +8,10 @@ export interface ILoginResponse {
   email: string;
   token: string;
   role?: string;
+  refreshToken?: string;
+}
+
+export interface IRefreshTokenRequest {
+  token: string;
+  refreshToken: string;
 }
@@ -0,0 +1,24 @@
+export type SortDirection = 'asc' | 'desc';
+
+// Page request of the list endpoints that page on the server (1-based page)
+export interface IPageQuery {
+  page: number;
+  pageSize: number;
+  sortField?: string;
+  sortDirection?: SortDirection;
+}
+
+// One page of results; totalCount comes from the X-Total-Count header
+export interface IPagedResult<T> {
+  items: T[];
+  totalCount: number;
+}
+
+// Search, page and sort of a list page as kept in its query params (see ListUrlState)
+export interface IListState {
+  search: string;
+  page: number;
+  rows: number;
+  sortField: string | null;
+  sortOrder: 1 | -1;
+}
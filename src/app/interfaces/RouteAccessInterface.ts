@@ -0,0 +1,12 @@
+export type RouteAccess = 'public' | 'authenticated' | 'Admin' | 'customer';
+
+export interface IRouteAccessData {
+  access?: RouteAccess;
+  navLabel?: string;
+}
+
+export interface INavLink {
+  path: string;
+  label: string;
+  access: RouteAccess;
+}
@@ -0,0 +1,146 @@
+import { Injectable, inject } from '@angular/core';
+import { HttpClient, HttpHeaders, HttpParams } from '@angular/common/http';
+import { Observable, map } from 'rxjs';
+import { APP_CONFIG } from './AppConfig';
+import { ContractDiagnosticsService } from './ContractDiagnosticsService';
+import { Schema, arrayOf } from './Schema';
+import { IApiUrls } from '../interfaces/AppConfigInterface';
+import { IPagedResult } from '../interfaces/PagingInterface';
+
+export type ApiName = keyof IApiUrls;
+
+// Header with the number of items of a paged query, across all its pages
+export const TOTAL_COUNT_HEADER = 'X-Total-Count';
+
+export interface IApiRequestOptions<T = unknown> {
+  headers?: HttpHeaders;
+  params?: HttpParams;
+  // Validates the response (each item for getList) before it reaches the caller
+  schema?: Schema<T>;
+}
+
+// Resolves a payload serialized with .NET ReferenceHandler.Preserve:
+// { $id, $values } wrappers become arrays, { $ref } points back to the object
+// with that $id and the $id markers are dropped
+export function resolvePreserved<T>(payload: unknown): T {
+  const objectsById = new Map<string, unknown>();
+
+  const resolve = (value: unknown): unknown => {
+    if (Array.isArray(value)) {
+      return value.map(resolve);
+    }
+    if (!value || typeof value !== 'object') {
+      return value;
+    }
+
+    const node = value as Record<string, unknown>;
+    if (typeof node['$ref'] === 'string') {
+      return objectsById.get(node['$ref']) ?? null;
+    }
+
+    if ('$values' in node) {
+      const values: unknown[] = [];
+      // Registered before the items so that they can reference the list
+      if (typeof node['$id'] === 'string') {
+        objectsById.set(node['$id'], values);
+      }
+      values.push(...toList(node['$values']).map(resolve));
+      return values;
+    }
+
+    const result: Record<string, unknown> = {};
+    if (typeof node['$id'] === 'string') {
+      objectsById.set(node['$id'], result);
+    }
+    for (const [key, child] of Object.entries(node)) {
+      if (key !== '$id') {
+        result[key] = resolve(child);
+      }
+    }
+    return result;
+  };
+
+  return resolve(payload) as T;
+}
+
+// List endpoints may answer with a single object or nothing at all
+export function toList<T>(payload: unknown): T[] {
+  if (Array.isArray(payload)) {
+    return payload as T[];
+  }
+  if (payload === null || payload === undefined || payload === '') {
+    return [];
+  }
+  return [payload as T];
+}
+
+@Injectable({
+  providedIn: 'root',
+})
+export class ApiClient {
+  private readonly http = inject(HttpClient);
+  private readonly apiUrl = inject(APP_CONFIG).apiUrl;
+  private readonly diagnostics = inject(ContractDiagnosticsService);
+
+  url(api: ApiName, path: string): string {
+    return `${this.apiUrl[api]}${path}`;
+  }
+
+  get<T>(api: ApiName, path: string, options: IApiRequestOptions<T> = {}): Observable<T> {
+    const { schema, ...httpOptions } = options;
+    return this.http
+      .get<unknown>(this.url(api, path), httpOptions)
+      .pipe(map((body) => this.parse(body, schema, `GET ${path}`)));
+  }
+
+  getList<T>(api: ApiName, path: string, options: IApiRequestOptions<T> = {}): Observable<T[]> {
+    const { schema, ...httpOptions } = options;
+    return this.get<unknown>(api, path, httpOptions).pipe(
+      map((body) => toList<T>(body)),
+      map((items) => (schema ? this.diagnostics.validate(arrayOf(schema), items, `GET ${path}`) : items))
+    );
+  }
+
+  // Paged list endpoints answer with one page of items and the total in a header
+  getPage<T>(api: ApiName, path: string, options: IApiRequestOptions<T> = {}): Observable<IPagedResult<T>> {
+    const { schema, ...httpOptions } = options;
+    const endpoint = `GET ${path}`;
+    return this.http.get<unknown>(this.url(api, path), { ...httpOptions, observe: 'response' }).pipe(
+      map((response) => {
+        const items = toList<T>(resolvePreserved(response.body));
+        const totalCount = Number(response.headers.get(TOTAL_COUNT_HEADER) ?? NaN);
+        return {
+          items: schema ? this.diagnostics.validate(arrayOf(schema), items, endpoint) : items,
+          // Without the header (e.g. not exposed by CORS) only this page is known
+          totalCount: Number.isFinite(totalCount) ? totalCount : items.length,
+        };
+      })
+    );
+  }
+
+  post<T>(api: ApiName, path: string, body: unknown, options: IApiRequestOptions<T> = {}): Observable<T> {
+    const { schema, ...httpOptions } = options;
+    return this.http
+      .post<unknown>(this.url(api, path), body, httpOptions)
+      .pipe(map((response) => this.parse(response, schema, `POST ${path}`)));
+  }
+
+  put<T>(api: ApiName, path: string, body: unknown, options: IApiRequestOptions<T> = {}): Observable<T> {
+    const { schema, ...httpOptions } = options;
+    return this.http
+      .put<unknown>(this.url(api, path), body, httpOptions)
+      .pipe(map((response) => this.parse(response, schema, `PUT ${path}`)));
+  }
+
+  delete<T>(api: ApiName, path: string, options: IApiRequestOptions<T> = {}): Observable<T> {
+    const { schema, ...httpOptions } = options;
+    return this.http
+      .delete<unknown>(this.url(api, path), httpOptions)
+      .pipe(map((response) => this.parse(response, schema, `DELETE ${path}`)));
+  }
+
+  private parse<T>(body: unknown, schema: Schema<T> | undefined, endpoint: string): T {
+    const resolved = resolvePreserved<unknown>(body);
+    return schema ? this.diagnostics.validate(schema, resolved, endpoint) : (resolved as T);
+  }
+}
@@ -0,0 +1,52 @@
+import { Injectable, InjectionToken, inject, provideAppInitializer } from '@angular/core';
+import { HttpBackend, HttpClient } from '@angular/common/http';
+import { firstValueFrom } from 'rxjs';
+import { environment } from 'src/environments/environment';
+import { IApiUrls, IAppConfig } from '../interfaces/AppConfigInterface';
+
+const API_URL_KEYS: (keyof IApiUrls)[] = ['userService', 'cdService', 'shoppingService'];
+
+@Injectable({
+  providedIn: 'root',
+})
+export class AppConfigService {
+  // HttpBackend skips the interceptors, which themselves depend on the config
+  private readonly http = new HttpClient(inject(HttpBackend));
+  private loadedConfig: IAppConfig | null = null;
+
+  get config(): IAppConfig {
+    if (!this.loadedConfig) {
+      throw new Error('[AppConfigService] Configuration requested before it was loaded');
+    }
+    return this.loadedConfig;
+  }
+
+  async load(): Promise<void> {
+    const config = await firstValueFrom(
+      this.http.get<IAppConfig>(environment.configUrl)
+    );
+    this.loadedConfig = this.validate(config);
+  }
+
+  private validate(config: IAppConfig): IAppConfig {
+    const missing = API_URL_KEYS.filter(
+      (key) => typeof config?.apiUrl?.[key] !== 'string' || !config.apiUrl[key]
+    );
+    if (missing.length > 0) {
+      throw new Error(
+        `[AppConfigService] ${environment.configUrl} is missing apiUrl.${missing.join(', apiUrl.')}`
+      );
+    }
+    return config;
+  }
+}
+
+export const APP_CONFIG = new InjectionToken<IAppConfig>('APP_CONFIG', {
+  providedIn: 'root',
+  factory: () => inject(AppConfigService).config,
+});
+
+// Loads the configuration before the first component or service reads it
+export function provideAppConfig() {
+  return provideAppInitializer(() => inject(AppConfigService).load());
+}
@@ -0,0 +1,89 @@
+import { HttpErrorResponse } from '@angular/common/http';
+import { AppErrorKind, FieldErrors, IProblemDetails } from '../interfaces/AppErrorInterface';
+
+const DEFAULT_MESSAGES: Record<AppErrorKind, string> = {
+  network: 'Could not connect to the server. Please check your internet connection.',
+  validation: 'The data sent is not valid.',
+  unauthorized: "Your session has expired or you don't have permission. Please log in again.",
+  forbidden: "You don't have permission to perform this action.",
+  notFound: 'The requested item was not found.',
+  conflict: 'The operation conflicts with the current state of the data.',
+  server: 'Internal server error. Please try again later.',
+  unknown: 'An unexpected error has occurred. Please try again.',
+};
+
+function kindFromStatus(status: number): AppErrorKind {
+  if (status === 0) return 'network';
+  if (status === 400 || status === 422) return 'validation';
+  if (status === 401) return 'unauthorized';
+  if (status === 403) return 'forbidden';
+  if (status === 404) return 'notFound';
+  if (status === 409) return 'conflict';
+  if (status >= 500) return 'server';
+  return 'unknown';
+}
+
+function toFieldErrors(errors: IProblemDetails['errors']): FieldErrors {
+  const fieldErrors: FieldErrors = {};
+  Object.entries(errors ?? {}).forEach(([field, messages]) => {
+    fieldErrors[field] = Array.isArray(messages) ? messages.map(String) : [String(messages)];
+  });
+  return fieldErrors;
+}
+
+// Every failed request reaches the components as an AppError (see ErrorInterceptor)
+export class AppError extends Error {
+  constructor(
+    readonly kind: AppErrorKind,
+    message: string,
+    readonly status = 0,
+    readonly fieldErrors: FieldErrors = {},
+    readonly url: string | null = null
+  ) {
+    super(message);
+    this.name = 'AppError';
+  }
+
+  get hasFieldErrors(): boolean {
+    return Object.keys(this.fieldErrors).length > 0;
+  }
+
+  static fromHttpError(error: HttpErrorResponse): AppError {
+    const kind = kindFromStatus(error.status);
+    const body = error.error;
+
+    if (typeof body === 'string' && body.trim() !== '') {
+      return new AppError(kind, body, error.status, {}, error.url);
+    }
+
+    const problem: IProblemDetails = body && typeof body === 'object' ? body : {};
+    const fieldErrors = toFieldErrors(problem.errors);
+    const validationMessage = Object.values(fieldErrors).flat().join(' ');
+    // The title of a ProblemDetails is only the status text, the defaults say more
+    const message = problem.detail || problem.message || validationMessage || DEFAULT_MESSAGES[kind];
+
+    return new AppError(
+      validationMessage ? 'validation' : kind,
+      message,
+      error.status,
+      fieldErrors,
+      error.url
+    );
+  }
+
+  static from(error: unknown): AppError {
+    if (error instanceof AppError) {
+      return error;
+    }
+    if (error instanceof HttpErrorResponse) {
+      return AppError.fromHttpError(error);
+    }
+    if (typeof error === 'string' && error) {
+      return new AppError('unknown', error);
+    }
+    if (error instanceof Error && error.message) {
+      return new AppError('unknown', error.message);
+    }
+    return new AppError('unknown', DEFAULT_MESSAGES.unknown);
+  }
+}
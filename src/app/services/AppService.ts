@@ -1,15 +1,15 @@
 import { Injectable, inject } from '@angular/core';
 import { Observable } from 'rxjs';
 import { HttpClient } from '@angular/common/http';
-import { environment } from 'src/environments/environment';
-import { ILogin, ILoginResponse } from '../interfaces/LoginInterface';
+import { APP_CONFIG } from './AppConfig';
+import { ILogin, ILoginResponse, IRefreshTokenRequest } from '../interfaces/LoginInterface';
 import { IRegister } from '../interfaces/RegisterInterface';
 
 @Injectable({
   providedIn: 'root',
 })
 export class AppService {
-  private readonly baseUrl = environment.apiUrl.userService;
+  private readonly baseUrl = inject(APP_CONFIG).apiUrl.userService;
 
   private readonly http = inject(HttpClient);
 
@@ -20,6 +20,13 @@ export class AppService {
     );
   }
 
+  refresh(request: IRefreshTokenRequest): Observable<ILoginResponse> {
+    return this.http.post<ILoginResponse>(
+      `${this.baseUrl}auth/refresh`,
+      request
+    );
+  }
+
   register(user: IRegister) {
     return this.http.post<any>(`${this.baseUrl}auth/register`, user);
   }
@@ -0,0 +1,228 @@
+import { Injectable, computed, inject, signal } from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { Subject } from 'rxjs';
+import { jwtDecode } from 'jwt-decode';
+import { ILoginResponse } from '../interfaces/LoginInterface';
+import { IAuthClaims, IAuthSession } from '../interfaces/AuthSessionInterface';
+import { AUTH_PERSISTENT_STORAGE, AUTH_STORAGE } from './AuthStorage';
+import { CartStore } from '../ecommerce/cart/CartStore';
+import { resetCart } from '../ecommerce/cart/CartState';
+import { TabSyncService } from '../shared/services/TabSyncService';
+
+const ROLE_CLAIM = 'http://schemas.microsoft.com/ws/2008/06/identity/claims/role';
+
+// Possible claim names for the cart ID, in order of preference
+const CART_ID_CLAIMS = [
+  'CartId',
+  'cartId',
+  'cartid',
+  'cart_id',
+  'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/nameidentifier',
+];
+
+function decodeClaims(token: string): IAuthClaims | null {
+  if (!token) {
+    return null;
+  }
+  try {
+    return jwtDecode<IAuthClaims>(token);
+  } catch (error) {
+    console.error('[AuthSessionService] Error decoding token:', error);
+    return null;
+  }
+}
+
+@Injectable({
+  providedIn: 'root',
+})
+export class AuthSessionService {
+  private readonly STORAGE_KEY = 'user';
+
+  private readonly storage = inject(AUTH_STORAGE);
+  private readonly persistentStorage = inject(AUTH_PERSISTENT_STORAGE);
+  private readonly cartStore = inject(CartStore);
+  private readonly tabSync = inject(TabSyncService);
+
+  private readonly sessionState = signal<IAuthSession | null>(this.restore());
+  private readonly loggedOutSubject = new Subject<string>();
+  private readonly remoteLogoutSubject = new Subject<void>();
+
+  // Selectors
+  readonly session = this.sessionState.asReadonly();
+  readonly token = computed(() => this.sessionState()?.token ?? '');
+  readonly refreshToken = computed(() => this.sessionState()?.refreshToken ?? '');
+  readonly claims = computed(() => decodeClaims(this.token()));
+  readonly email = computed(() => this.sessionState()?.email ?? null);
+  readonly role = computed(
+    () => this.sessionState()?.role || (this.claims()?.[ROLE_CLAIM] as string | undefined) || null
+  );
+  readonly isLoggedIn = computed(() => !!this.sessionState());
+  readonly isAdmin = computed(() => this.role() === 'Admin');
+  // Expiry in seconds since the epoch, null when the token has no exp claim
+  readonly expiresAt = computed(() => this.claims()?.exp ?? null);
+  readonly cartId = computed(() => this.extractCartId());
+
+  readonly loggedOut$ = this.loggedOutSubject.asObservable();
+  // The session was ended from another tab
+  readonly remoteLogout$ = this.remoteLogoutSubject.asObservable();
+
+  constructor() {
+    this.tabSync.messages$
+      .pipe(takeUntilDestroyed())
+      .subscribe((message) => {
+        if (message.type === 'session') {
+          this.applyRemoteSession(message.session);
+        }
+      });
+  }
+
+  login(response: ILoginResponse, email: string, remember = false): IAuthSession {
+    const previousEmail = this.email();
+    if (previousEmail && previousEmail !== email) {
+      // Clean up previous user's data and reset cart state
+      this.cleanUserLocalData(previousEmail);
+      this.cartStore.update(resetCart);
+    }
+
+    const claims = decodeClaims(response.token);
+    const session: IAuthSession = {
+      ...response,
+      email,
+      role: (claims?.[ROLE_CLAIM] as string | undefined) || response.role,
+      name: email.split('@')[0],
+      remember,
+    };
+
+    this.persist(session);
+    return session;
+  }
+
+  // Replace the tokens after a refresh, keeping the rest of the session
+  updateTokens(token: string, refreshToken?: string): void {
+    const current = this.sessionState();
+    if (!current) {
+      return;
+    }
+    this.persist({
+      ...current,
+      token,
+      refreshToken: refreshToken || current.refreshToken,
+    });
+  }
+
+  // Ends the session, whether the user logged out or it expired
+  logout(): void {
+    this.endSession();
+    this.tabSync.publish({ type: 'session', session: null });
+  }
+
+  isExpired(): boolean {
+    const expiresAt = this.expiresAt();
+    return expiresAt !== null && expiresAt < Date.now() / 1000;
+  }
+
+  private persist(session: IAuthSession): void {
+    this.write(session);
+    this.sessionState.set(session);
+    this.tabSync.publish({ type: 'session', session });
+  }
+
+  private write(session: IAuthSession): void {
+    const [target, other] = session.remember
+      ? [this.persistentStorage, this.storage]
+      : [this.storage, this.persistentStorage];
+    target.setItem(this.STORAGE_KEY, JSON.stringify(session));
+    other.removeItem(this.STORAGE_KEY);
+  }
+
+  private endSession(): void {
+    const email = this.email();
+    if (email) {
+      this.loggedOutSubject.next(email);
+      this.cleanUserLocalData(email);
+    }
+
+    // Empty the cart before clearing user data
+    this.cartStore.update(resetCart);
+
+    this.storage.removeItem(this.STORAGE_KEY);
+    this.persistentStorage.removeItem(this.STORAGE_KEY);
+    this.sessionState.set(null);
+  }
+
+  // Login, user switch, token refresh or logout done in another tab
+  private applyRemoteSession(session: IAuthSession | null): void {
+    if (!session) {
+      if (this.isLoggedIn()) {
+        this.endSession();
+        this.remoteLogoutSubject.next();
+      }
+      return;
+    }
+
+    const previousEmail = this.email();
+    if (previousEmail && previousEmail !== session.email) {
+      this.cartStore.update(resetCart);
+    }
+    this.write(session);
+    this.sessionState.set(session);
+  }
+
+  private restore(): IAuthSession | null {
+    // A tab-only session wins over a remembered one
+    for (const storage of [this.storage, this.persistentStorage]) {
+      const userData = storage.getItem(this.STORAGE_KEY);
+      if (!userData) {
+        continue;
+      }
+      try {
+        const session: IAuthSession = JSON.parse(userData);
+        if (session?.email && session.token) {
+          return session;
+        }
+      } catch (error) {
+        console.error('Error parsing user data from storage:', error);
+        storage.removeItem(this.STORAGE_KEY);
+      }
+    }
+    return null;
+  }
+
+  private extractCartId(): number | null {
+    // Administrators have no cart of their own
+    if (this.isAdmin()) {
+      return 0;
+    }
+
+    const claims = this.claims();
+    if (!claims) {
+      return null;
+    }
+
+    const claim = CART_ID_CLAIMS.map((name) => claims[name]).find(
+      (value) => value !== undefined && value !== null
+    );
+    if (claim === undefined) {
+      return null;
+    }
+
+    // Convert to number if it's a string
+    const cartId = typeof claim === 'string' ? parseInt(claim, 10) : Number(claim);
+    if (isNaN(cartId)) {
+      console.warn('Cart ID is not a valid number:', claim);
+      return null;
+    }
+    return cartId;
+  }
+
+  private cleanUserLocalData(email: string): void {
+    const keys = [
+      `cart_${email}`,
+      `${email}_cart`,
+      `${email}_cartItemsCount`,
+      `${email}_cartItems`,
+    ];
+
+    keys.forEach((key) => localStorage.removeItem(key));
+  }
+}
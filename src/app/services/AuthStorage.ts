@@ -0,0 +1,60 @@
+import { InjectionToken } from '@angular/core';
+import { AuthStorageType, IAuthStorage } from '../interfaces/AuthSessionInterface';
+
+export class BrowserAuthStorage implements IAuthStorage {
+  constructor(private readonly storage: Storage) {}
+
+  getItem(key: string): string | null {
+    return this.storage.getItem(key);
+  }
+
+  setItem(key: string, value: string): void {
+    this.storage.setItem(key, value);
+  }
+
+  removeItem(key: string): void {
+    this.storage.removeItem(key);
+  }
+}
+
+export class MemoryAuthStorage implements IAuthStorage {
+  private readonly items = new Map<string, string>();
+
+  getItem(key: string): string | null {
+    return this.items.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string): void {
+    this.items.set(key, value);
+  }
+
+  removeItem(key: string): void {
+    this.items.delete(key);
+  }
+}
+
+export function createAuthStorage(type: AuthStorageType): IAuthStorage {
+  try {
+    if (type === 'session') {
+      return new BrowserAuthStorage(sessionStorage);
+    }
+    if (type === 'local') {
+      return new BrowserAuthStorage(localStorage);
+    }
+  } catch (error) {
+    // Web Storage can be unavailable (privacy modes, sandboxed iframes)
+    console.warn('[AuthStorage] Web storage unavailable, using memory:', error);
+  }
+  return new MemoryAuthStorage();
+}
+
+export const AUTH_STORAGE = new InjectionToken<IAuthStorage>('AUTH_STORAGE', {
+  providedIn: 'root',
+  factory: () => createAuthStorage('session'),
+});
+
+// Used instead of AUTH_STORAGE when the user asks to be remembered
+export const AUTH_PERSISTENT_STORAGE = new InjectionToken<IAuthStorage>('AUTH_PERSISTENT_STORAGE', {
+  providedIn: 'root',
+  factory: () => createAuthStorage('local'),
+});
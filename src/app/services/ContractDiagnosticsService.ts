@@ -0,0 +1,43 @@
+import { Injectable, isDevMode } from '@angular/core';
+import { Subject } from 'rxjs';
+import { IContractIssue, IContractViolation } from '../interfaces/ContractInterface';
+import { Schema } from './Schema';
+
+export class ContractViolationError extends Error {
+  constructor(readonly violation: IContractViolation) {
+    super(
+      `${violation.endpoint} does not match its contract: ` +
+        violation.issues.map((issue) => `${issue.path} (expected ${issue.expected})`).join(', ')
+    );
+    this.name = 'ContractViolationError';
+  }
+}
+
+// Checks backend responses against their DTO schemas and publishes every mismatch
+@Injectable({
+  providedIn: 'root',
+})
+export class ContractDiagnosticsService {
+  private readonly violationsSubject = new Subject<IContractViolation>();
+  readonly violations$ = this.violationsSubject.asObservable();
+
+  // Development builds throw so that a contract change cannot go unnoticed,
+  // production builds report it and keep the coerced value
+  validate<T>(schema: Schema<T>, value: unknown, endpoint: string): T {
+    const issues: IContractIssue[] = [];
+    const parsed = schema(value, '$', issues);
+    if (issues.length > 0) {
+      const violation: IContractViolation = { endpoint, issues };
+      this.report(violation);
+      if (isDevMode()) {
+        throw new ContractViolationError(violation);
+      }
+    }
+    return parsed;
+  }
+
+  private report(violation: IContractViolation): void {
+    console.error(`[ContractDiagnostics] Invalid response from ${violation.endpoint}`, violation.issues);
+    this.violationsSubject.next(violation);
+  }
+}
@@ -0,0 +1,101 @@
+import { IContractIssue } from '../interfaces/ContractInterface';
+
+// Validates (and coerces) a value read from an API response. Mismatches are
+// collected in issues and the value is returned as received
+export type Schema<T> = (value: unknown, path: string, issues: IContractIssue[]) => T;
+
+// Shape of a DTO: fields left out are passed through without validation
+export type ObjectShape<T> = { [K in keyof T]?: Schema<T[K]> };
+
+export const numberSchema: Schema<number> = (value, path, issues) => {
+  if (typeof value === 'number' && !isNaN(value)) {
+    return value;
+  }
+  // .NET serializes decimals as strings in some endpoints
+  if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) {
+    return Number(value);
+  }
+  issues.push({ path, expected: 'number', received: value });
+  return value as number;
+};
+
+export const stringSchema: Schema<string> = (value, path, issues) => {
+  if (typeof value !== 'string') {
+    issues.push({ path, expected: 'string', received: value });
+  }
+  return value as string;
+};
+
+export const booleanSchema: Schema<boolean> = (value, path, issues) => {
+  if (typeof value === 'boolean') {
+    return value;
+  }
+  if (value === 'true' || value === 'false') {
+    return value === 'true';
+  }
+  issues.push({ path, expected: 'boolean', received: value });
+  return value as boolean;
+};
+
+// ISO date string, normalized so that it sorts and filters consistently
+export const dateSchema: Schema<string> = (value, path, issues) => {
+  const time = typeof value === 'string' ? Date.parse(value) : NaN;
+  if (isNaN(time)) {
+    issues.push({ path, expected: 'date', received: value });
+    return value as string;
+  }
+  return new Date(time).toISOString();
+};
+
+// One of a fixed set of string values, e.g. the kind of an alert
+export function oneOf<T extends string>(...values: T[]): Schema<T> {
+  return (value, path, issues) => {
+    if (!values.includes(value as T)) {
+      issues.push({ path, expected: values.map((v) => `'${v}'`).join(' | '), received: value });
+    }
+    return value as T;
+  };
+}
+
+// A missing value is read as null
+export function nullable<T>(schema: Schema<T>): Schema<T | null> {
+  return (value, path, issues) =>
+    value === null || value === undefined ? null : schema(value, path, issues);
+}
+
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return (value, path, issues) =>
+    value === undefined || value === null ? undefined : schema(value, path, issues);
+}
+
+export function arrayOf<T>(item: Schema<T>): Schema<T[]> {
+  return (value, path, issues) => {
+    if (!Array.isArray(value)) {
+      issues.push({ path, expected: 'array', received: value });
+      return value as T[];
+    }
+    return value.map((entry, index) => item(entry, `${path}[${index}]`, issues));
+  };
+}
+
+export function objectOf<T extends object>(shape: ObjectShape<T>): Schema<T> {
+  return (value, path, issues) => {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      issues.push({ path, expected: 'object', received: value });
+      return value as T;
+    }
+
+    const source = value as Record<string, unknown>;
+    const result: Record<string, unknown> = { ...source };
+    for (const [key, schema] of Object.entries(shape) as [string, Schema<unknown> | undefined][]) {
+      if (schema) {
+        const parsed = schema(source[key], `${path}.${key}`, issues);
+        // Optional fields that were not sent stay absent
+        if (parsed !== undefined || key in source) {
+          result[key] = parsed;
+        }
+      }
+    }
+    return result as T;
+  };
+}
@@ -1,119 +1,86 @@
 import { Injectable, OnDestroy, inject } from '@angular/core';
-import { BehaviorSubject, Subject } from 'rxjs';
+import { toObservable } from '@angular/core/rxjs-interop';
+import { Subject, takeUntil } from 'rxjs';
 import { Router } from '@angular/router';
-import { CartEventsService } from '../shared/services/CartEventsService';
+import { AuthSessionService } from './AuthSessionService';
 
+// Observable/navigation facade over AuthSessionService, which owns the session state
 @Injectable({
   providedIn: 'root',
 })
 export class UserService implements OnDestroy {
-  private readonly STORAGE_KEY = 'user';
   private readonly destroy$ = new Subject<void>();
 
-  private readonly emailSubject = new BehaviorSubject<string | null>(null);
-  private readonly roleSubject = new BehaviorSubject<string | null>(null);
-  private readonly userLoggedOutSubject = new Subject<string>();
-
-  readonly email$ = this.emailSubject.asObservable();
-  readonly role$ = this.roleSubject.asObservable();
-  readonly userLoggedOut$ = this.userLoggedOutSubject.asObservable();
-  readonly emailUser$ = this.emailSubject.asObservable();
-
   private readonly router = inject(Router);
-  private readonly cartEvents = inject(CartEventsService);
-
-  constructor() {
-    this.initializeFromStorage();
-  }
-
-  private initializeFromStorage(): void {
-    const userData = sessionStorage.getItem(this.STORAGE_KEY);
-    if (userData) {
-      try {
-        const user = JSON.parse(userData);
-        if (user?.email) {
-          this.emailSubject.next(user.email);
-          this.roleSubject.next(user.role || null);
-        }
-      } catch (error) {
-        console.error('Error parsing user data from storage:', error);
-        sessionStorage.removeItem(this.STORAGE_KEY);
-      }
-    }
-  }
-
-  setEmail(email: string): void {
-    const currentEmail = this.emailSubject.value;
-    if (currentEmail && currentEmail !== email) {
-      // Clean up previous user's data and reset cart state
-      this.cleanUserLocalData(currentEmail);
-      // Emit cart reset event when switching users
-      this.cartEvents.resetCart();
-    }
-    // Notify the email change so the cart can sync
-    this.emailSubject.next(email);
-  }
-
-  setRole(role: string): void {
-    this.roleSubject.next(role);
-  }
+  private readonly authSession = inject(AuthSessionService);
 
-  private cleanUserLocalData(email: string): void {
-    if (!email) return;
+  readonly email$ = toObservable(this.authSession.email);
+  readonly role$ = toObservable(this.authSession.role);
+  readonly userLoggedOut$ = this.authSession.loggedOut$;
+  readonly emailUser$ = this.email$;
 
-    const keys = [
-      `${email}_cart`,
-      `${email}_cartItemsCount`,
-      `${email}_cartItems`,
-    ];
-
-    keys.forEach((key) => localStorage.removeItem(key));
+  constructor() {
+    // Logging out in another tab also leaves the protected pages in this one
+    this.authSession.remoteLogout$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(() => this.redirectToLogin());
   }
 
   get email(): string | null {
-    return this.emailSubject.value;
+    return this.authSession.email();
   }
 
   getRole(): string | null {
-    return this.roleSubject.value;
+    return this.authSession.role();
   }
 
-  clearEmail(): void {
-    this.emailSubject.next(null);
+  isAdmin(): boolean {
+    return this.authSession.isAdmin();
   }
 
-  clearRole(): void {
-    this.roleSubject.next(null);
+  redirectBasedOnRole(returnUrl?: string | null): void {
+    // Go back to the page that required the login when it is a valid in-app path
+    if (returnUrl && this.isSafeReturnUrl(returnUrl)) {
+      this.router.navigateByUrl(returnUrl);
+      return;
+    }
+    this.router.navigate([this.isAdmin() ? '/genres' : '/']);
   }
 
-  isAdmin(): boolean {
-    return this.roleSubject.value === 'Admin';
+  redirectToLogin(returnUrl: string = this.router.url): void {
+    const queryParams = this.isSafeReturnUrl(returnUrl) ? { returnUrl } : {};
+    this.router.navigate(['/login'], { queryParams });
   }
 
-  redirectBasedOnRole(): void {
-    this.router.navigate([this.isAdmin() ? '/genres' : '/']);
+  // Only relative in-app paths are accepted, never absolute or protocol-relative URLs
+  isSafeReturnUrl(url: string): boolean {
+    if (!url.startsWith('/') || url.startsWith('//') || url.startsWith('/\\')) {
+      return false;
+    }
+
+    // Returning to the auth pages would loop back to the login form
+    if (/^\/(login|register)(?:[/?#]|$)/.test(url)) {
+      return false;
+    }
+
+    try {
+      return new URL(url, window.location.origin).origin === window.location.origin;
+    } catch {
+      return false;
+    }
   }
 
   logout(): void {
-    const currentEmail = this.emailSubject.value;
-    if (currentEmail) {
-      this.userLoggedOutSubject.next(currentEmail);
-      this.cleanUserLocalData(currentEmail);
-      
-      // Emit cart reset event before clearing user data
-      this.cartEvents.resetCart();
-      
-      sessionStorage.removeItem(this.STORAGE_KEY);
-      this.clearEmail();
-      this.clearRole();
+    if (this.authSession.isLoggedIn()) {
+      this.authSession.logout();
       this.router.navigate(['/login']);
     }
   }
 
-  clearUser(): void {
-    sessionStorage.removeItem(this.STORAGE_KEY);
-    this.emailSubject.next(null);
-    this.roleSubject.next(null);
+  // Ends an expired or no longer renewable session, remembering the current page
+  expireSession(): void {
+    this.authSession.logout();
+    this.redirectToLogin();
   }
 
   ngOnDestroy(): void {
@@ -0,0 +1,21 @@
+import { Component, ChangeDetectionStrategy, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { RouterModule } from '@angular/router';
+import { AuthGuard } from 'src/app/guards/AuthGuardService';
+
+@Component({
+    selector: 'app-forbidden',
+    templateUrl: './ForbiddenComponent.html',
+    changeDetection: ChangeDetectionStrategy.OnPush,
+    imports: [
+        CommonModule,
+        RouterModule
+    ]
+})
+export class ForbiddenComponent {
+  private readonly authGuard = inject(AuthGuard);
+
+  get homeLink(): string {
+    return this.authGuard.getRole() === 'Admin' ? '/genres' : '/';
+  }
+}
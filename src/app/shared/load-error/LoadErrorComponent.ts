@@ -0,0 +1,16 @@
+import { Component, ChangeDetectionStrategy, input, output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+
+// Shown by the list components instead of their empty state when the load failed
+@Component({
+    selector: 'app-load-error',
+    templateUrl: './LoadErrorComponent.html',
+    changeDetection: ChangeDetectionStrategy.OnPush,
+    imports: [
+        CommonModule
+    ]
+})
+export class LoadErrorComponent {
+  readonly message = input.required<string>();
+  readonly retry = output<void>();
+}
@@ -2,15 +2,15 @@ import { Component, inject, afterNextRender, ChangeDetectionStrategy, ChangeDete
 import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
 import { CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms';
-import { Router, RouterModule } from '@angular/router';
-import { MessageService } from 'primeng/api';
+import { ActivatedRoute, RouterModule } from '@angular/router';
 import { MessagesModule } from 'primeng/messages';
-import { ToastModule } from 'primeng/toast';
 import { ILogin, ILoginResponse } from 'src/app/interfaces/LoginInterface';
 import { AppService } from 'src/app/services/AppService';
 import { AuthGuard } from 'src/app/guards/AuthGuardService';
 import { UserService } from 'src/app/services/UserService';
-import { jwtDecode } from 'jwt-decode';
+import { AuthSessionService } from 'src/app/services/AuthSessionService';
+import { AppError } from 'src/app/services/AppError';
+import { NotificationService } from 'src/app/shared/services/NotificationService';
 
 @Component({
     selector: 'app-login',
@@ -21,10 +21,9 @@ import { jwtDecode } from 'jwt-decode';
         CommonModule,
         FormsModule,
         RouterModule,
-        MessagesModule,
-        ToastModule
+        MessagesModule
     ],
-    providers: [MessageService, AuthGuard]
+    providers: [AuthGuard]
 })
 export class LoginComponent {
   infoLogin: ILogin = {
@@ -32,22 +31,24 @@ export class LoginComponent {
     password: '',
     role: '',
   };
+  rememberMe = false;
 
-  private readonly router = inject(Router);
+  private readonly route = inject(ActivatedRoute);
   private readonly appService = inject(AppService);
-  private readonly messageService = inject(MessageService);
+  private readonly notifications = inject(NotificationService);
   private readonly authGuard = inject(AuthGuard);
   private readonly userService = inject(UserService);
+  private readonly authSession = inject(AuthSessionService);
   private readonly cdr = inject(ChangeDetectorRef);
   private readonly destroyRef = inject(DestroyRef);
 
+  // Set by the route guards and the interceptor when a login is required
+  private readonly returnUrl = this.route.snapshot.queryParamMap.get('returnUrl');
+
   constructor() {
-    // Initial setup
-    this.userService.setEmail(this.infoLogin.email);
-    
     // Check if user is already logged in
     if (this.authGuard.isLoggedIn()) {
-      this.router.navigateByUrl('/ecommerce/listgroups');
+      this.userService.redirectBasedOnRole(this.returnUrl);
     }
 
     // afterNextRender runs once after the component is initially rendered
@@ -62,32 +63,20 @@ export class LoginComponent {
       takeUntilDestroyed(this.destroyRef)
     ).subscribe({
       next: (data: ILoginResponse) => {
-        const decodedToken: any = jwtDecode(data.token);
-        const role = decodedToken['http://schemas.microsoft.com/ws/2008/06/identity/claims/role'];
-        const email = this.infoLogin.email;
-        
-        const userData = { 
-          ...data, 
-          role, 
-          email,
-          name: email.split('@')[0] 
-        };
-        
-        sessionStorage.setItem('user', JSON.stringify(userData));
-        
-        this.userService.setEmail(email);
-        this.userService.setRole(role);
+        // The session service stores the token, role and email for everyone else
+        this.authSession.login(data, this.infoLogin.email, this.rememberMe);
         this.cdr.markForCheck();
         
-        // Redirect based on role
-        this.userService.redirectBasedOnRole();
+        // Redirect to the requested page, or based on role
+        this.userService.redirectBasedOnRole(this.returnUrl);
       },
       error: (err) => {
-        this.messageService.add({
-          severity: 'error',
-          summary: 'Error',
-          detail: 'Incorrect credentials',
-        });
+        // A 401 here means wrong credentials, not an expired session
+        if (AppError.from(err).kind === 'unauthorized') {
+          this.notifications.error('Incorrect credentials');
+        } else {
+          this.notifications.error(err);
+        }
         this.cdr.markForCheck();
       },
     });
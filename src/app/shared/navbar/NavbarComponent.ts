@@ -2,12 +2,24 @@ import { Component, inject, afterNextRender, ChangeDetectionStrategy, ChangeDete
 import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
 import { CommonModule } from '@angular/common';
 import { Router, RouterModule, NavigationEnd } from '@angular/router';
+import { OverlayPanelModule } from 'primeng/overlaypanel';
 import { of } from 'rxjs';
 import { filter, tap, switchMap } from 'rxjs/operators';
 
 // Services
 import { UserService } from 'src/app/services/UserService';
 import { CartService } from 'src/app/ecommerce/services/CartService';
+import { WishlistService } from 'src/app/ecommerce/services/WishlistService';
+import { AlertsService } from 'src/app/ecommerce/services/AlertsService';
+
+// Routing
+import { navLinks } from 'src/app/AppRoutes';
+import { hasRouteAccess } from 'src/app/guards/RoleGuard';
+import { INavLink } from 'src/app/interfaces/RouteAccessInterface';
+import { IAlertNotification } from 'src/app/ecommerce/EcommerceInterface';
+
+// Components
+import { OmniboxComponent } from 'src/app/shared/omnibox/OmniboxComponent';
 
 @Component({
     selector: 'app-navbar',
@@ -15,7 +27,9 @@ import { CartService } from 'src/app/ecommerce/services/CartService';
     changeDetection: ChangeDetectionStrategy.OnPush,
     imports: [
         CommonModule,
-        RouterModule
+        RouterModule,
+        OverlayPanelModule,
+        OmniboxComponent
     ]
 })
 export class NavbarComponent {
@@ -25,10 +39,15 @@ export class NavbarComponent {
   cartTotal: number = 0;
   currentRoute: string = '';
   cartEnabled: boolean = true;
+  wishlistCount = 0;
+  alertNotifications: IAlertNotification[] = [];
+  unreadAlerts = 0;
 
   private readonly userService = inject(UserService);
   private readonly router = inject(Router);
   private readonly cartService = inject(CartService);
+  private readonly wishlistService = inject(WishlistService);
+  private readonly alertsService = inject(AlertsService);
   private readonly cdr = inject(ChangeDetectorRef);
   private readonly destroyRef = inject(DestroyRef);
 
@@ -74,6 +93,23 @@ export class NavbarComponent {
       this.cdr.markForCheck();
     });
 
+    // Records in the wishlist, for visitors as well
+    this.wishlistService.count$.pipe(
+      takeUntilDestroyed(this.destroyRef)
+    ).subscribe(count => {
+      this.wishlistCount = count;
+      this.cdr.markForCheck();
+    });
+
+    // Notifications of the customer's stock and price alerts
+    this.alertsService.notifications$.pipe(
+      takeUntilDestroyed(this.destroyRef)
+    ).subscribe(notifications => {
+      this.alertNotifications = notifications;
+      this.unreadAlerts = notifications.filter(notification => !notification.read).length;
+      this.cdr.markForCheck();
+    });
+
     // Subscribe to route changes to update currentRoute
     this.router.events.pipe(
       filter((event): event is NavigationEnd => event instanceof NavigationEnd),
@@ -88,10 +124,9 @@ export class NavbarComponent {
       takeUntilDestroyed(this.destroyRef),
       tap((email: string | null) => {
         this.emailUser = email;
+        // Visitors keep a cart in the browser, its count and total come from the cart service
         if (!email) {
           this.role = null;
-          this.cartItemsCount = 0;
-          this.cartTotal = 0;
           this.cdr.markForCheck();
         }
       })
@@ -102,6 +137,7 @@ export class NavbarComponent {
       takeUntilDestroyed(this.destroyRef)
     ).subscribe(count => {
       this.cartItemsCount = count;
+      this.cdr.markForCheck();
     });
 
     // Subscribe to cart total changes
@@ -158,42 +194,29 @@ export class NavbarComponent {
     return this.role === 'Admin';
   }
 
-  isListGroupsPage(): boolean {
-    return this.currentRoute.includes('/listgroups') || this.currentRoute === '/';
-  }
-
-  isOrdersPage(): boolean {
-    return this.currentRoute.includes('/admin-orders') || this.currentRoute.includes('/orders');
-  }
-
-  isGenresPage(): boolean {
-    return this.currentRoute.includes('/genres');
-  }
-
-  isGroupsPage(): boolean {
-    return this.currentRoute.includes('/groups');
-  }
-
-  isRecordsPage(): boolean {
-    return this.currentRoute.includes('/records');
+  // Links the current user may open, hiding the page already being viewed
+  visibleNavLinks(): INavLink[] {
+    return navLinks.filter(
+      (link) =>
+        hasRouteAccess(link.access, !!this.emailUser, this.role) &&
+        !this.isCurrentPage(link.path)
+    );
   }
 
-  isCartsPage(): boolean {
-    return this.currentRoute.includes('/carts');
+  private isCurrentPage(path: string): boolean {
+    const url = this.currentRoute.split('?')[0];
+    return url === `/${path}` || (path === 'listgroups' && url === '/');
   }
 
-  isUsersPage(): boolean {
-    return this.currentRoute.includes('/users');
+  markAlertsRead(): void {
+    this.alertsService.markAllRead();
   }
 
   logout(): void {
-    this.cartService.resetCart();
-    sessionStorage.removeItem('user');
-    sessionStorage.removeItem('role');
+    this.userService.logout();
     this.emailUser = null;
     this.role = null;
     this.cdr.markForCheck();
-    this.router.navigate(['/login']);
   }
 
   isLoginPage(): boolean {
@@ -0,0 +1,193 @@
+import { Component, inject, ChangeDetectionStrategy, ChangeDetectorRef } from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { Router } from '@angular/router';
+import { Subject, of } from 'rxjs';
+import { catchError, debounceTime, switchMap } from 'rxjs/operators';
+import { ISearchResults } from 'src/app/ecommerce/EcommerceInterface';
+import { CatalogSearchService } from 'src/app/ecommerce/services/CatalogSearchService';
+
+// Suggestions per section of the dropdown
+const SUGGESTION_LIMIT = 5;
+
+interface IOmniboxSection {
+  title: string;
+  options: IOmniboxOption[];
+}
+
+interface IOmniboxOption {
+  label: string;
+  detail?: string;
+  image?: string | null;
+  commands: unknown[];
+}
+
+// Navbar search with type-ahead suggestions of genres, groups and records.
+// Enter without a highlighted suggestion opens the results page
+@Component({
+    selector: 'app-omnibox',
+    templateUrl: './OmniboxComponent.html',
+    styleUrls: ['./OmniboxComponent.css'],
+    changeDetection: ChangeDetectionStrategy.OnPush,
+    imports: [
+        CommonModule,
+        FormsModule
+    ]
+})
+export class OmniboxComponent {
+  term = '';
+  open = false;
+  loading = false;
+  sections: IOmniboxSection[] = [];
+  recentSearches: string[] = [];
+  // Index in the flattened options of all sections, -1 when none is highlighted
+  activeIndex = -1;
+
+  private readonly searchService = inject(CatalogSearchService);
+  private readonly router = inject(Router);
+  private readonly cdr = inject(ChangeDetectorRef);
+  private readonly termChange$ = new Subject<string>();
+
+  constructor() {
+    this.termChange$
+      .pipe(
+        debounceTime(250),
+        switchMap((term) =>
+          this.searchService.search(term, SUGGESTION_LIMIT).pipe(
+            // The suggestions are a convenience, a failure only hides them
+            catchError((error) => {
+              console.error('[OmniboxComponent] Error loading suggestions:', error);
+              return of(null);
+            })
+          )
+        ),
+        takeUntilDestroyed()
+      )
+      .subscribe((results) => {
+        this.loading = false;
+        this.sections = results ? this.toSections(results) : [];
+        this.activeIndex = -1;
+        this.cdr.markForCheck();
+      });
+  }
+
+  get options(): IOmniboxOption[] {
+    return this.sections.flatMap((section) => section.options);
+  }
+
+  onFocus(): void {
+    this.recentSearches = this.searchService.recentSearches();
+    this.open = true;
+  }
+
+  // Delayed so that a click on a suggestion lands before the dropdown closes
+  onBlur(): void {
+    setTimeout(() => {
+      this.open = false;
+      this.cdr.markForCheck();
+    }, 150);
+  }
+
+  onTermChange(): void {
+    this.open = true;
+    this.loading = !!this.term.trim();
+    if (!this.term.trim()) {
+      this.sections = [];
+    }
+    this.termChange$.next(this.term.trim());
+  }
+
+  onKeydown(event: KeyboardEvent): void {
+    const count = this.options.length;
+    switch (event.key) {
+      case 'ArrowDown':
+        event.preventDefault();
+        this.open = true;
+        this.activeIndex = count ? (this.activeIndex + 1) % count : -1;
+        break;
+      case 'ArrowUp':
+        event.preventDefault();
+        this.activeIndex = count ? (this.activeIndex <= 0 ? count - 1 : this.activeIndex - 1) : -1;
+        break;
+      case 'Enter':
+        event.preventDefault();
+        if (this.activeIndex >= 0 && this.activeIndex < count) {
+          this.select(this.options[this.activeIndex]);
+        } else {
+          this.showAllResults();
+        }
+        break;
+      case 'Escape':
+        this.open = false;
+        this.activeIndex = -1;
+        break;
+    }
+  }
+
+  indexOf(option: IOmniboxOption): number {
+    return this.options.indexOf(option);
+  }
+
+  select(option: IOmniboxOption): void {
+    this.searchService.rememberSearch(this.term);
+    this.close();
+    this.router.navigate(option.commands);
+  }
+
+  searchRecent(term: string): void {
+    this.term = term;
+    this.showAllResults();
+  }
+
+  clearRecentSearches(): void {
+    this.searchService.clearRecentSearches();
+    this.recentSearches = [];
+  }
+
+  showAllResults(): void {
+    const term = this.term.trim();
+    if (!term) return;
+    this.searchService.rememberSearch(term);
+    this.close();
+    this.router.navigate(['/search'], { queryParams: { q: term } });
+  }
+
+  private close(): void {
+    this.open = false;
+    this.activeIndex = -1;
+    this.cdr.markForCheck();
+  }
+
+  private toSections(results: ISearchResults): IOmniboxSection[] {
+    const sections: IOmniboxSection[] = [
+      {
+        title: 'Genres',
+        options: results.genres.map((genre) => ({
+          label: genre.nameMusicGenre,
+          detail: genre.totalGroups !== undefined ? `${genre.totalGroups} groups` : undefined,
+          commands: ['/genres', genre.idMusicGenre],
+        })),
+      },
+      {
+        title: 'Groups',
+        options: results.groups.map((group) => ({
+          label: group.nameGroup,
+          detail: group.nameMusicGenre,
+          image: group.imageGroup,
+          commands: ['/listrecords', group.idGroup],
+        })),
+      },
+      {
+        title: 'Records',
+        options: results.records.map((record) => ({
+          label: record.titleRecord,
+          detail: [record.groupName, record.yearOfPublication].filter(Boolean).join(' · '),
+          image: record.imageRecord,
+          commands: ['/records', record.idRecord],
+        })),
+      },
+    ];
+    return sections.filter((section) => section.options.length > 0);
+  }
+}
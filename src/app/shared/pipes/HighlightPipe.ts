@@ -0,0 +1,27 @@
+import { Pipe, PipeTransform } from '@angular/core';
+import { matchRanges } from '../utils/TextSearch';
+
+const HTML_ESCAPES: Record<string, string> = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' };
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (char) => HTML_ESCAPES[char]);
+}
+
+// Marks the parts of a table cell matched by the search, bound with [innerHTML]:
+// <span [innerHTML]="group.nameGroup | highlight: searchText"></span>
+@Pipe({
+  name: 'highlight'
+})
+export class HighlightPipe implements PipeTransform {
+  transform(value: string | number | null | undefined, query: string | null | undefined): string {
+    const text = value === null || value === undefined ? '' : String(value);
+    const ranges = matchRanges(text, query ?? '');
+    let html = '';
+    let position = 0;
+    ranges.forEach(([start, end]) => {
+      html += escapeHtml(text.slice(position, start)) + '<mark>' + escapeHtml(text.slice(start, end)) + '</mark>';
+      position = end;
+    });
+    return html + escapeHtml(text.slice(position));
+  }
+}
@@ -1,12 +1,12 @@
 import { Component, inject, afterNextRender, ChangeDetectionStrategy, ChangeDetectorRef, DestroyRef } from '@angular/core';
 import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
 import { CommonModule } from '@angular/common';
-import { FormsModule } from '@angular/forms';
+import { FormsModule, NgForm } from '@angular/forms';
 import { Router, RouterModule } from '@angular/router';
-import { MessageService } from 'primeng/api';
-import { ToastModule } from 'primeng/toast';
 import { IRegister } from 'src/app/interfaces/RegisterInterface';
 import { AppService } from 'src/app/services/AppService';
+import { NotificationService } from 'src/app/shared/services/NotificationService';
+import { applyServerErrors } from 'src/app/shared/utils/ServerValidation';
 
 @Component({
     selector: 'app-register',
@@ -16,10 +16,8 @@ import { AppService } from 'src/app/services/AppService';
     imports: [
         CommonModule,
         FormsModule,
-        RouterModule,
-        ToastModule
-    ],
-    providers: [MessageService]
+        RouterModule
+    ]
 })
 export class RegisterComponent {
   usuario: IRegister = { email: '', password: '' };
@@ -27,7 +25,7 @@ export class RegisterComponent {
 
   private readonly appService = inject(AppService);
   private readonly router = inject(Router);
-  private readonly messageService = inject(MessageService);
+  private readonly notifications = inject(NotificationService);
   private readonly cdr = inject(ChangeDetectorRef);
   private readonly destroyRef = inject(DestroyRef);
 
@@ -39,17 +37,13 @@ export class RegisterComponent {
 
   }
 
-  onSubmit(form: any) {
+  onSubmit(form: NgForm) {
     if (form.valid) {
       this.appService.register(this.usuario).pipe(
         takeUntilDestroyed(this.destroyRef)
       ).subscribe({
         next: () => {
-          this.messageService.add({
-            severity: 'success',
-            summary: 'Registration successful',
-            detail: 'User successfully registered',
-          });
+          this.notifications.success('User successfully registered', 'Registration successful');
           this.cdr.markForCheck();
 
           setTimeout(() => {
@@ -58,11 +52,9 @@ export class RegisterComponent {
         },
         error: (err) => {
           console.error('Error registering user:', err);
-          this.messageService.add({
-            severity: 'error',
-            summary: 'Registration error',
-            detail: 'The user could not be registered. Please try again.',
-          });
+          if (!applyServerErrors(form, err)) {
+            this.notifications.error(err, 'Registration error');
+          }
           this.cdr.markForCheck();
         },
       });
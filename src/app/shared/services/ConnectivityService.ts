@@ -0,0 +1,78 @@
+import { Injectable, NgZone, OnDestroy, computed, inject, signal } from '@angular/core';
+import { toObservable } from '@angular/core/rxjs-interop';
+import { Observable, filter, map, take } from 'rxjs';
+import { APP_CONFIG } from 'src/app/services/AppConfig';
+import { ApiName } from 'src/app/services/ApiClient';
+
+const SERVICE_LABELS: Record<ApiName, string> = {
+  userService: 'user service',
+  cdService: 'catalog service',
+  shoppingService: 'shopping service',
+};
+
+// Browser connectivity and the microservices that stopped answering,
+// fed by the window online/offline events and by RetryInterceptor
+@Injectable({
+  providedIn: 'root'
+})
+export class ConnectivityService implements OnDestroy {
+  private readonly zone = inject(NgZone);
+  private readonly apiUrl = inject(APP_CONFIG).apiUrl;
+  private readonly unavailable = signal<ReadonlySet<ApiName>>(new Set());
+
+  readonly online = signal(navigator.onLine);
+  readonly unavailableServices = computed(() =>
+    [...this.unavailable()].map((api) => SERVICE_LABELS[api])
+  );
+  readonly degraded = computed(() => !this.online() || this.unavailable().size > 0);
+
+  private readonly online$ = toObservable(this.online);
+
+  constructor() {
+    window.addEventListener('online', this.onOnline);
+    window.addEventListener('offline', this.onOffline);
+  }
+
+  // Completes as soon as the browser is (or comes back) online
+  whenOnline(): Observable<void> {
+    return this.online$.pipe(
+      filter((online) => online),
+      take(1),
+      map(() => undefined)
+    );
+  }
+
+  reportSuccess(url: string): void {
+    const api = this.apiFor(url);
+    if (api && this.unavailable().has(api)) {
+      this.unavailable.update((apis) => new Set([...apis].filter((name) => name !== api)));
+    }
+  }
+
+  reportUnavailable(url: string): void {
+    const api = this.apiFor(url);
+    if (api && !this.unavailable().has(api)) {
+      this.unavailable.update((apis) => new Set([...apis, api]));
+    }
+  }
+
+  private apiFor(url: string): ApiName | null {
+    const entry = Object.entries(this.apiUrl).find(([, baseUrl]) =>
+      url.toLowerCase().startsWith(baseUrl.toLowerCase())
+    );
+    return entry ? (entry[0] as ApiName) : null;
+  }
+
+  private readonly onOnline = (): void => {
+    this.zone.run(() => this.online.set(true));
+  };
+
+  private readonly onOffline = (): void => {
+    this.zone.run(() => this.online.set(false));
+  };
+
+  ngOnDestroy(): void {
+    window.removeEventListener('online', this.onOnline);
+    window.removeEventListener('offline', this.onOffline);
+  }
+}
@@ -0,0 +1,29 @@
+import { Injectable, inject } from '@angular/core';
+import { MessageService } from 'primeng/api';
+import { AppError } from 'src/app/services/AppError';
+
+// User-facing messages, shown by the <p-toast> in AppComponent
+@Injectable({
+  providedIn: 'root'
+})
+export class NotificationService {
+  private readonly messageService = inject(MessageService);
+
+  success(detail: string, summary = 'Success'): void {
+    this.messageService.add({ severity: 'success', summary, detail });
+  }
+
+  info(detail: string, summary = 'Information'): void {
+    this.messageService.add({ severity: 'info', summary, detail });
+  }
+
+  warn(detail: string, summary = 'Warning'): void {
+    this.messageService.add({ severity: 'warn', summary, detail });
+  }
+
+  error(error: unknown, summary = 'Error'): AppError {
+    const appError = AppError.from(error);
+    this.messageService.add({ severity: 'error', summary, detail: appError.message, life: 6000 });
+    return appError;
+  }
+}
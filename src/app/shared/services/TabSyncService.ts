@@ -0,0 +1,65 @@
+import { Injectable, NgZone, OnDestroy, inject } from '@angular/core';
+import { Subject } from 'rxjs';
+import { IAuthSession } from 'src/app/interfaces/AuthSessionInterface';
+
+export type TabSyncMessage =
+  | { type: 'session'; session: IAuthSession | null }
+  // email is null for the cart of a visitor who is not signed in
+  | { type: 'cart'; email: string | null };
+
+@Injectable({
+  providedIn: 'root'
+})
+export class TabSyncService implements OnDestroy {
+  private readonly CHANNEL_NAME = 'ecommerce-ds-sync';
+  private readonly zone = inject(NgZone);
+  private readonly messageSource = new Subject<TabSyncMessage>();
+  private readonly channel: BroadcastChannel | null =
+    typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(this.CHANNEL_NAME) : null;
+
+  // Messages published by the other tabs (never the ones sent by this tab)
+  messages$ = this.messageSource.asObservable();
+
+  constructor() {
+    if (this.channel) {
+      this.channel.onmessage = (event: MessageEvent<TabSyncMessage>) => this.receive(event.data);
+    } else {
+      window.addEventListener('storage', this.onStorage);
+    }
+  }
+
+  publish(message: TabSyncMessage): void {
+    if (this.channel) {
+      this.channel.postMessage(message);
+      return;
+    }
+
+    // Fallback: other tabs see this write as a storage event
+    try {
+      localStorage.setItem(this.CHANNEL_NAME, JSON.stringify({ message, sentAt: Date.now() }));
+      localStorage.removeItem(this.CHANNEL_NAME);
+    } catch (error) {
+      console.warn('[TabSyncService] Could not notify other tabs:', error);
+    }
+  }
+
+  private readonly onStorage = (event: StorageEvent): void => {
+    if (event.key !== this.CHANNEL_NAME || !event.newValue) {
+      return;
+    }
+    try {
+      this.receive(JSON.parse(event.newValue).message);
+    } catch (error) {
+      console.error('[TabSyncService] Invalid sync message:', error);
+    }
+  };
+
+  private receive(message: TabSyncMessage): void {
+    this.zone.run(() => this.messageSource.next(message));
+  }
+
+  ngOnDestroy(): void {
+    this.channel?.close();
+    window.removeEventListener('storage', this.onStorage);
+  }
+}
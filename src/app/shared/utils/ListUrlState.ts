@@ -0,0 +1,132 @@
+import { inject } from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { ActivatedRoute, ParamMap, Params, Router } from '@angular/router';
+import { TableLazyLoadEvent } from 'primeng/table';
+import { Observable, Subject } from 'rxjs';
+import { debounceTime, map } from 'rxjs/operators';
+import { IListState, IPageQuery } from 'src/app/interfaces/PagingInterface';
+import { toPageQuery } from './TableQuery';
+
+const PARAMS = { search: 'q', page: 'page', rows: 'rows', sortField: 'sort', sortOrder: 'order' };
+
+export interface IListStateDefaults {
+  rows: number;
+  sortField?: string;
+}
+
+export interface IListUpdateOptions {
+  // Typing a search replaces the history entry instead of adding one per keystroke
+  replaceUrl?: boolean;
+  // Page-specific filters, e.g. { genre: 3 }; null removes the param
+  params?: Params;
+}
+
+// Keeps the search, page and sort of a list in the query params of its route,
+// so that a view survives a refresh, can be bookmarked and follows the browser
+// history. The tables only write the state; the page reads it back from
+// changes$, also on back/forward. Create it in a field initializer
+export class ListUrlState {
+  private readonly router = inject(Router);
+  private readonly route = inject(ActivatedRoute);
+  private readonly searchChange$ = new Subject<string>();
+
+  // Query params, including the page-specific ones
+  readonly params$: Observable<ParamMap> = this.route.queryParamMap;
+  readonly changes$: Observable<IListState> = this.params$.pipe(map((params) => this.stateOf(params)));
+
+  constructor(private readonly defaults: IListStateDefaults) {
+    this.searchChange$
+      .pipe(debounceTime(300), takeUntilDestroyed())
+      .subscribe((search) => this.update({ search, page: 1 }, { replaceUrl: true }));
+  }
+
+  get snapshot(): IListState {
+    return this.stateOf(this.route.snapshot.queryParamMap);
+  }
+
+  // Index of the first row of the page, as p-table expects it
+  firstRow(state: IListState): number {
+    return (state.page - 1) * state.rows;
+  }
+
+  toPageQuery(state: IListState): IPageQuery {
+    return {
+      page: state.page,
+      pageSize: state.rows,
+      sortField: state.sortField ?? undefined,
+      sortDirection: state.sortField ? (state.sortOrder === -1 ? 'desc' : 'asc') : undefined,
+    };
+  }
+
+  search(text: string): void {
+    this.searchChange$.next(text.trim());
+  }
+
+  // (onPage) of a p-table paged in the browser
+  page(event: { first: number; rows: number }): void {
+    this.update({ page: Math.floor(event.first / event.rows) + 1, rows: event.rows });
+  }
+
+  // (onSort) of a p-table sorted in the browser, which also fires when the
+  // table sorts new data by the current field
+  sort(event: { field: string; order: number }): void {
+    const current = this.snapshot;
+    const order = event.order === -1 ? -1 : 1;
+    if (current.sortField !== event.field || current.sortOrder !== order) {
+      this.update({ sortField: event.field, sortOrder: order, page: 1 });
+    }
+  }
+
+  // (onLazyLoad) of a p-table paged on the server
+  lazyLoad(event: TableLazyLoadEvent): void {
+    const query = toPageQuery(event, this.defaults.rows);
+    this.update({
+      page: query.page,
+      rows: query.pageSize,
+      sortField: query.sortField ?? null,
+      sortOrder: query.sortDirection === 'desc' ? -1 : 1,
+    });
+  }
+
+  update(patch: Partial<IListState>, options: IListUpdateOptions = {}): void {
+    const queryParams: Params = { ...options.params };
+    if (patch.search !== undefined) queryParams[PARAMS.search] = patch.search || null;
+    if (patch.page !== undefined) queryParams[PARAMS.page] = patch.page > 1 ? patch.page : null;
+    if (patch.rows !== undefined) queryParams[PARAMS.rows] = patch.rows !== this.defaults.rows ? patch.rows : null;
+    if (patch.sortField !== undefined) queryParams[PARAMS.sortField] = this.sortParam(patch.sortField);
+    if (patch.sortOrder !== undefined) queryParams[PARAMS.sortOrder] = patch.sortOrder === -1 ? 'desc' : null;
+
+    this.router.navigate([], {
+      relativeTo: this.route,
+      queryParams,
+      queryParamsHandling: 'merge',
+      replaceUrl: options.replaceUrl,
+    });
+  }
+
+  stateOf(params: ParamMap): IListState {
+    return {
+      search: params.get(PARAMS.search) ?? '',
+      page: this.positiveInt(params.get(PARAMS.page)) ?? 1,
+      rows: this.positiveInt(params.get(PARAMS.rows)) ?? this.defaults.rows,
+      sortField: this.sortFieldOf(params.get(PARAMS.sortField)),
+      sortOrder: params.get(PARAMS.sortOrder) === 'desc' ? -1 : 1,
+    };
+  }
+
+  // Without the param the default sort applies, so a list with a default sort
+  // is left unsorted with an empty one (sort=)
+  private sortParam(sortField: string | null): string | null {
+    if (sortField === (this.defaults.sortField ?? null)) return null;
+    return sortField ?? '';
+  }
+
+  private sortFieldOf(value: string | null): string | null {
+    return value === null ? this.defaults.sortField ?? null : value || null;
+  }
+
+  private positiveInt(value: string | null): number | null {
+    const parsed = Number(value);
+    return value && Number.isInteger(parsed) && parsed > 0 ? parsed : null;
+  }
+}
@@ -0,0 +1,37 @@
+import { NgForm } from '@angular/forms';
+import { AppError } from 'src/app/services/AppError';
+
+// Shows the backend validation messages under the matching form controls as a
+// 'server' error. Backend field names are matched to control names ignoring case;
+// aliases maps the ones that differ (e.g. { groupId: 'group' }).
+// Returns false when some message has no control to be shown on
+export function applyServerErrors(
+  form: NgForm,
+  error: unknown,
+  aliases: Record<string, string> = {}
+): boolean {
+  const appError = AppError.from(error);
+  if (!appError.hasFieldErrors) {
+    return false;
+  }
+
+  const controlNames = Object.keys(form.controls);
+  const aliasFor = (field: string) =>
+    Object.entries(aliases).find(([name]) => name.toLowerCase() === field.toLowerCase())?.[1];
+
+  let allShown = true;
+  Object.entries(appError.fieldErrors).forEach(([field, messages]) => {
+    // ASP.NET prefixes body fields with "$." in some validation errors
+    const name = field.replace(/^\$\./, '');
+    const controlName =
+      aliasFor(name) ?? controlNames.find((control) => control.toLowerCase() === name.toLowerCase());
+    const control = controlName ? form.controls[controlName] : null;
+    if (!control) {
+      allShown = false;
+      return;
+    }
+    control.setErrors({ ...control.errors, server: messages.join(' ') });
+    control.markAsTouched();
+  });
+  return allShown;
+}
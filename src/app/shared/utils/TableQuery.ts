@@ -0,0 +1,14 @@
+import { TableLazyLoadEvent } from 'primeng/table';
+import { IPageQuery } from 'src/app/interfaces/PagingInterface';
+
+// Page, size and sort of a lazy p-table, as the paged endpoints expect them
+export function toPageQuery(event: TableLazyLoadEvent, defaultPageSize: number): IPageQuery {
+  const pageSize = event.rows || defaultPageSize;
+  const sortField = Array.isArray(event.sortField) ? event.sortField[0] : event.sortField;
+  return {
+    page: Math.floor((event.first ?? 0) / pageSize) + 1,
+    pageSize,
+    sortField: sortField || undefined,
+    sortDirection: sortField ? (event.sortOrder === -1 ? 'desc' : 'asc') : undefined,
+  };
+}
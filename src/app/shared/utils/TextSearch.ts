@@ -0,0 +1,174 @@
+// Accent-insensitive, typo-tolerant matching shared by the list searches.
+// Every word of the query must match some field; items are ranked by the
+// weight of the fields they match in and by how well they match
+
+export interface ISearchField<T> {
+  value: (item: T) => string | number | null | undefined;
+  // Relevance of a match in this field, e.g. title 3 > group 2 > year 1
+  weight: number;
+}
+
+export type TextRange = [start: number, end: number];
+
+// How well a query word matches: whole word > start of a word > anywhere > with a typo
+const EXACT = 4;
+const PREFIX = 3;
+const SUBSTRING = 2;
+const FUZZY = 1;
+
+// "Motörhead" -> "motorhead"
+export function normalizeText(value: string): string {
+  return value.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase();
+}
+
+export function tokenize(query: string): string[] {
+  return normalizeText(query).split(/\s+/).filter(Boolean);
+}
+
+// Items matching every word of the query, best matches first (stable for ties).
+// An empty query returns the items as they are
+export function searchItems<T>(items: T[], query: string, fields: ISearchField<T>[]): T[] {
+  const tokens = tokenize(query);
+  if (!tokens.length) {
+    return [...items];
+  }
+
+  return items
+    .map((item, index) => ({ item, index, score: scoreItem(item, tokens, fields) }))
+    .filter((entry) => entry.score > 0)
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map((entry) => entry.item);
+}
+
+export function matchesQuery<T>(item: T, query: string, fields: ISearchField<T>[]): boolean {
+  const tokens = tokenize(query);
+  return !tokens.length || scoreItem(item, tokens, fields) > 0;
+}
+
+// Ranges of text matched by the words of the query, for highlighting
+export function matchRanges(text: string, query: string): TextRange[] {
+  const tokens = tokenize(query);
+  if (!text || !tokens.length) {
+    return [];
+  }
+
+  const { normalized, offsets } = normalizeWithOffsets(text);
+  const ranges: TextRange[] = [];
+  tokens.forEach((token) => {
+    let found = false;
+    let from = normalized.indexOf(token);
+    while (from !== -1) {
+      found = true;
+      ranges.push([offsets[from], offsets[from + token.length]]);
+      from = normalized.indexOf(token, from + token.length);
+    }
+    // A typo highlights the whole word it matched
+    if (!found) {
+      wordsOf(normalized).forEach(({ word, start }) => {
+        if (matchQuality(word, token) === FUZZY) {
+          ranges.push([offsets[start], offsets[start + word.length]]);
+        }
+      });
+    }
+  });
+  return mergeRanges(ranges);
+}
+
+function scoreItem<T>(item: T, tokens: string[], fields: ISearchField<T>[]): number {
+  const texts = fields.map((field) => {
+    const value = field.value(item);
+    return value === null || value === undefined ? '' : normalizeText(String(value));
+  });
+
+  let total = 0;
+  for (const token of tokens) {
+    const best = Math.max(...fields.map((field, i) => field.weight * bestQuality(texts[i], token)));
+    if (best === 0) {
+      return 0;
+    }
+    total += best;
+  }
+  return total;
+}
+
+function bestQuality(text: string, token: string): number {
+  if (!text) return 0;
+  if (!text.includes(token)) {
+    return wordsOf(text).some(({ word }) => matchQuality(word, token) === FUZZY) ? FUZZY : 0;
+  }
+  return Math.max(...wordsOf(text).map(({ word }) => matchQuality(word, token)), SUBSTRING);
+}
+
+function matchQuality(word: string, token: string): number {
+  if (word === token) return EXACT;
+  if (word.startsWith(token)) return PREFIX;
+  if (word.includes(token)) return SUBSTRING;
+  const allowed = allowedTypos(token);
+  if (allowed && Math.abs(word.length - token.length) <= allowed && editDistance(word, token) <= allowed) {
+    return FUZZY;
+  }
+  return 0;
+}
+
+// Short words and numbers must be typed right, "beatels" finds "beatles"
+function allowedTypos(token: string): number {
+  if (/\d/.test(token)) return 0;
+  if (token.length >= 8) return 2;
+  if (token.length >= 4) return 1;
+  return 0;
+}
+
+// Levenshtein distance counting a swap of two adjacent letters as one edit
+function editDistance(a: string, b: string): number {
+  const rows = a.length + 1;
+  const cols = b.length + 1;
+  const d: number[][] = Array.from({ length: rows }, (_, i) =>
+    Array.from({ length: cols }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return d[a.length][b.length];
+}
+
+function wordsOf(text: string): { word: string; start: number }[] {
+  return [...text.matchAll(/[\p{L}\p{N}]+/gu)].map((match) => ({ word: match[0], start: match.index ?? 0 }));
+}
+
+// offsets[i] is the index in the original text of the i-th normalized character
+// (plus the end of the text), since removing accents changes the length
+function normalizeWithOffsets(text: string): { normalized: string; offsets: number[] } {
+  let normalized = '';
+  const offsets: number[] = [];
+  let index = 0;
+  for (const char of text) {
+    const normalizedChar = normalizeText(char);
+    for (let i = 0; i < normalizedChar.length; i++) {
+      offsets.push(index);
+    }
+    normalized += normalizedChar;
+    index += char.length;
+  }
+  offsets.push(index);
+  return { normalized, offsets };
+}
+
+function mergeRanges(ranges: TextRange[]): TextRange[] {
+  const sorted = [...ranges].sort((a, b) => a[0] - b[0]);
+  const merged: TextRange[] = [];
+  sorted.forEach(([start, end]) => {
+    const last = merged[merged.length - 1];
+    if (last && start <= last[1]) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      merged.push([start, end]);
+    }
+  });
+  return merged;
+}
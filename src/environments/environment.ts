@@ -1,11 +1,5 @@
 export const environment = {
-  // API Base URLs
-  apiUrl: {
-    userService: 'https://localhost:7170/api/',
-    cdService: 'https://localhost:7262/api/',
-    shoppingService: 'https://localhost:7273/api/'
-  },
-  // Other configurations
-  adminEmail: 'ADMIN@gmail.com',
-  jwtKey: 'Programacion@.net#2025_Dev154267865497r54768356378890567'
+  // API URLs and other deployment settings are read at runtime from this file,
+  // so the same build can be deployed to any environment
+  configUrl: 'assets/config.json'
 };
@@ -8,10 +8,14 @@ import { AppComponent } from './app/AppComponent';
 import { routes } from './app/AppRoutes';
 import { AuthGuard } from './app/guards/AuthGuardService';
 import { AuthInterceptor } from './app/interceptors/AuthInterceptor';
+import { ErrorInterceptor } from './app/interceptors/ErrorInterceptor';
+import { RetryInterceptor } from './app/interceptors/RetryInterceptor';
+import { provideAppConfig } from './app/services/AppConfig';
 import { provideAnimationsAsync } from '@angular/platform-browser/animations/async';
 
 bootstrapApplication(AppComponent, {
   providers: [
+    provideAppConfig(),
     provideRouter(routes),
     provideHttpClient(
       withInterceptorsFromDi()
@@ -21,10 +25,20 @@ bootstrapApplication(AppComponent, {
     ConfirmationService,
     MessageService,
     AuthGuard,
+    {
+      provide: HTTP_INTERCEPTORS,
+      useClass: ErrorInterceptor,
+      multi: true
+    },
     { 
       provide: HTTP_INTERCEPTORS,
       useClass: AuthInterceptor,
       multi: true 
+    },
+    {
+      provide: HTTP_INTERCEPTORS,
+      useClass: RetryInterceptor,
+      multi: true
     }
   ]
 }).catch(err => console.error(err));